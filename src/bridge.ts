@@ -0,0 +1,226 @@
+import {Bus} from './strongbus';
+import * as Events from './types/events';
+import {Lifecycle} from './types/lifecycle';
+import {EventKeys} from './types/utility';
+import {generateSubscription} from './utils/generateSubscription';
+import {over} from './utils/over';
+import {isListening, isPattern} from './utils/patterns';
+import {randomId} from './utils/randomId';
+
+
+export namespace bridge {
+
+  /**
+   * A `MessagePort`, `BroadcastChannel`, `Worker`, `window`, or anything else that
+   * can post messages and dispatch `message` events with the posted value as `event.data`
+   */
+  export interface EventTargetTransport {
+    postMessage(message: any): void;
+    addEventListener(type: 'message', listener: (event: {data: any}) => void): void;
+    removeEventListener(type: 'message', listener: (event: {data: any}) => void): void;
+    start?(): void;
+  }
+
+  /**
+   * A Node `worker_threads` `MessagePort` or `Worker`, which emit the posted value as the `message` event's argument
+   */
+  export interface EventEmitterTransport {
+    postMessage(message: any): void;
+    on(type: 'message', listener: (data: any) => void): void;
+    off(type: 'message', listener: (data: any) => void): void;
+  }
+
+  export type Transport = EventTargetTransport|EventEmitterTransport;
+
+  /**
+   * @prop events - which events to forward to the remote bus, and to raise locally when received from it. Other events received are ignored
+   * @prop channel [default=`"strongbus"`] - messages posted to the transport are tagged with the channel,
+   * and messages from other channels are ignored, so several bridges may share a transport
+   * @prop serialize - convert a payload into a value the transport can post. Defaults to the payload itself
+   * @prop deserialize - convert a received value back into a payload. Defaults to the value itself
+   */
+  export interface Options<TEventMap extends object> {
+    events: Events.Listenable<EventKeys<TEventMap>>;
+    channel?: string;
+    serialize?: (event: EventKeys<TEventMap>, payload: TEventMap[EventKeys<TEventMap>]) => any;
+    deserialize?: (event: EventKeys<TEventMap>, data: any) => TEventMap[EventKeys<TEventMap>];
+  }
+
+  /**
+   * The message posted to a transport for each forwarded event
+   * @prop id - identifies the event as it is forwarded between buses, so it is delivered to each bus at most once
+   */
+  export interface Message {
+    channel: string;
+    id: string;
+    event: Events.Event;
+    data: any;
+  }
+}
+
+const MESSAGE_TAG = '__strongbus';
+
+interface Raising {
+  id: string;
+  bridgeId?: string;
+}
+
+/**
+ * The bridges of a bus, which share an id for each event raised on the bus, so that every bridge forwards it with the same id,
+ * and the ids of the messages the bus recently sent or raised, so that it raises each event at most once
+ * @ignore
+ */
+class Bridges {
+  private static readonly maxSeenMessages = 100;
+
+  private readonly bus: Bus<any, any>;
+  private readonly seen = new Set<string>();
+  // the event currently being raised on the bus, and the bridge that received it if it came from a transport
+  private raising: Raising|undefined;
+  // an event received from a transport that is about to be raised on the bus
+  private receiving: Raising|undefined;
+  private bridges = 0;
+  private identifier: Events.Subscription|undefined;
+
+  constructor(bus: Bus<any, any>) {
+    this.bus = bus;
+  }
+
+  public get current(): Raising|undefined {
+    return this.raising;
+  }
+
+  public has(id: string): boolean {
+    return this.seen.has(id);
+  }
+
+  public remember(id: string): void {
+    this.seen.add(id);
+    if(this.seen.size > Bridges.maxSeenMessages) {
+      this.seen.delete(this.seen.values().next().value);
+    }
+  }
+
+  /**
+   * Raise an event received by a bridge, identified by the id it was sent with
+   */
+  public receive(received: Raising, raise: () => void): void {
+    this.receiving = received;
+    try {
+      raise();
+    } finally {
+      this.receiving = undefined;
+    }
+  }
+
+  /**
+   * Assign each event raised on the bus an id before any bridge forwards it, while a bridge is attached
+   */
+  public attach(): Events.Subscription {
+    if(!this.bridges++) {
+      this.identifier = this.bus.use((event, payload, next) => {
+        const previous = this.raising;
+        this.raising = this.receiving || {id: randomId()};
+        this.receiving = undefined;
+        try {
+          next();
+        } finally {
+          this.raising = previous;
+        }
+      });
+    }
+    return generateSubscription(() => {
+      if(!--this.bridges) {
+        this.identifier();
+        this.identifier = undefined;
+      }
+    });
+  }
+}
+
+const bridges = new WeakMap<Bus<any, any>, Bridges>();
+
+/**
+ * Forward events between a [[Bus]] and a bus in another context (a worker, iframe, or another tab)
+ * that is bridged to the other end of the transport. Events received from the transport are raised on the bus.
+ * Events are never sent back over the bridge that delivered them, and each event is raised at most once per bus.
+ * Bridges add [[Middleware]] to the bus to identify each event; middleware added afterwards must not defer `next`
+ * or events may be delivered more than once when bridges form a cycle.
+ * The bridge is torn down when the returned Subscription is invoked or the bus is destroyed. The transport is not closed
+ */
+export function bridge<TEventMap extends object>(
+  bus: Bus<TEventMap, any>,
+  transport: bridge.Transport,
+  options: bridge.Options<TEventMap>
+): Events.Subscription {
+  const {
+    events,
+    channel = 'strongbus',
+    serialize = (event, payload) => payload,
+    deserialize = (event, data) => data
+  } = options;
+  const bridgeId = randomId();
+  if(!bridges.has(bus)) {
+    bridges.set(bus, new Bridges(bus));
+  }
+  const shared = bridges.get(bus);
+
+  const send = (event: EventKeys<TEventMap>, payload: TEventMap[EventKeys<TEventMap>]): void => {
+    const {current} = shared;
+    if(current?.bridgeId === bridgeId) {
+      return;
+    }
+    const id = current?.id || randomId();
+    shared.remember(id);
+    const message: bridge.Message = {channel, id, event, data: serialize(event, payload)};
+    transport.postMessage({[MESSAGE_TAG]: message});
+  };
+
+  const receive = (data: any): void => {
+    const message: bridge.Message = data?.[MESSAGE_TAG];
+    if(!message || message.channel !== channel || !isListening(events, message.event) || shared.has(message.id)) {
+      return;
+    }
+    shared.remember(message.id);
+    const event = message.event as EventKeys<TEventMap>;
+    shared.receive({id: message.id, bridgeId}, () => bus.emit(event, deserialize(event, message.data)));
+  };
+
+  const identifierSub = shared.attach();
+  const eventSub = subscribe(bus, events, send);
+  const messageSub = listen(transport, receive);
+
+  let willDestroySub: Events.Subscription;
+  const teardown = generateSubscription(() => {
+    over([eventSub, identifierSub, messageSub])();
+    willDestroySub?.();
+  });
+  willDestroySub = bus.hook(Lifecycle.willDestroy, teardown);
+  return teardown;
+}
+
+/**
+ * Pass each of the events raised on the bus to `send`
+ * @ignore
+ */
+function subscribe(bus: Bus<any, any>, events: Events.Listenable<Events.Event>, send: (event: Events.Event, payload: any) => void): Events.Subscription {
+  if(Array.isArray(events) || events === Events.WILDCARD || isPattern(events)) {
+    return bus.on(events, send);
+  }
+  return bus.on(events, (payload: any) => send(events, payload));
+}
+
+/**
+ * @ignore
+ */
+function listen(transport: bridge.Transport, receive: (data: any) => void): Events.Subscription {
+  if('addEventListener' in transport) {
+    const listener = (e: {data: any}) => receive(e.data);
+    transport.addEventListener('message', listener);
+    transport.start?.();
+    return generateSubscription(() => transport.removeEventListener('message', listener));
+  } else {
+    transport.on('message', receive);
+    return generateSubscription(() => transport.off('message', receive));
+  }
+}
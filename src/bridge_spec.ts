@@ -0,0 +1,209 @@
+import {sleep} from 'jaasync/lib/cancelable';
+import {MessageChannel, MessagePort} from 'worker_threads';
+
+import {bridge} from './bridge';
+import {Bus} from './strongbus';
+
+type TestEventMap = {
+  foo: string;
+  bar: number;
+  baz: boolean;
+};
+
+async function delivery(): Promise<void> {
+  await sleep(10);
+}
+
+
+describe('bridge', () => {
+  let local: Bus<TestEventMap>;
+  let remote: Bus<TestEventMap>;
+  let localPort: MessagePort;
+  let remotePort: MessagePort;
+  let onFoo: jasmine.Spy;
+  let onBar: jasmine.Spy;
+
+  beforeEach(() => {
+    local = new Bus<TestEventMap>({name: 'local'});
+    remote = new Bus<TestEventMap>({name: 'remote'});
+    ({port1: localPort, port2: remotePort} = new MessageChannel());
+    onFoo = jasmine.createSpy('onFoo');
+    onBar = jasmine.createSpy('onBar');
+  });
+
+  afterEach(() => {
+    localPort.close();
+    remotePort.close();
+  });
+
+  it('raises forwarded events on the remote bus', async () => {
+    bridge(local, localPort, {events: ['foo', 'bar']});
+    bridge(remote, remotePort, {events: ['foo', 'bar']});
+    remote.on('foo', onFoo);
+    remote.on('bar', onBar);
+
+    local.emit('foo', 'hello');
+    local.emit('bar', 42);
+    await delivery();
+
+    expect(onFoo).toHaveBeenCalledWith('hello');
+    expect(onBar).toHaveBeenCalledWith(42);
+  });
+
+  it('only forwards the selected events', async () => {
+    bridge(local, localPort, {events: 'foo'});
+    bridge(remote, remotePort, {events: ['foo', 'bar']});
+    remote.on('foo', onFoo);
+    remote.on('bar', onBar);
+
+    local.emit('foo', 'hello');
+    local.emit('bar', 42);
+    await delivery();
+
+    expect(onFoo).toHaveBeenCalledWith('hello');
+    expect(onBar).not.toHaveBeenCalled();
+  });
+
+  it('only raises the selected events when they are received', async () => {
+    bridge(local, localPort, {events: '*'});
+    bridge(remote, remotePort, {events: 'bar'});
+    remote.on('foo', onFoo);
+    remote.on('bar', onBar);
+
+    local.emit('foo', 'hello');
+    local.emit('bar', 42);
+    await delivery();
+
+    expect(onFoo).not.toHaveBeenCalled();
+    expect(onBar).toHaveBeenCalledWith(42);
+  });
+
+  it('supports a DOM style transport', async () => {
+    const listeners = new Set<(e: {data: any}) => void>();
+    const transport: bridge.EventTargetTransport = {
+      postMessage: (message) => listeners.forEach(l => l({data: message})),
+      addEventListener: (type, listener) => listeners.add(listener),
+      removeEventListener: (type, listener) => listeners.delete(listener)
+    };
+    const sub = bridge(remote, transport, {events: 'foo'});
+    remote.on('foo', onFoo);
+
+    transport.postMessage({__strongbus: {channel: 'strongbus', id: '1', event: 'foo', data: 'hello'}});
+    expect(onFoo).toHaveBeenCalledWith('hello');
+
+    sub();
+    expect(listeners.size).toBe(0);
+  });
+
+  describe('loop prevention', () => {
+    it('does not send events back to the bus they came from', async () => {
+      bridge(local, localPort, {events: '*'});
+      bridge(remote, remotePort, {events: '*'});
+      local.on('foo', onFoo);
+      remote.on('foo', onBar);
+
+      local.emit('foo', 'hello');
+      await delivery();
+
+      expect(onFoo).toHaveBeenCalledTimes(1);
+      expect(onBar).toHaveBeenCalledTimes(1);
+    });
+
+    it('forwards events raised by handlers of bridged events', async () => {
+      bridge(local, localPort, {events: '*'});
+      bridge(remote, remotePort, {events: '*'});
+      remote.on('foo', payload => remote.emit('bar', payload.length));
+      local.on('bar', onBar);
+
+      local.emit('foo', 'hello');
+      await delivery();
+
+      expect(onBar).toHaveBeenCalledWith(5);
+    });
+
+    it('raises an event at most once per bus when bridges form a cycle', async () => {
+      const third = new Bus<TestEventMap>({name: 'third'});
+      const a = new MessageChannel();
+      const b = new MessageChannel();
+      try {
+        bridge(local, localPort, {events: '*'});
+        bridge(remote, remotePort, {events: '*'});
+        bridge(remote, a.port1, {events: '*'});
+        bridge(third, a.port2, {events: '*'});
+        bridge(third, b.port1, {events: '*'});
+        bridge(local, b.port2, {events: '*'});
+        const onThird = jasmine.createSpy('onThird');
+        local.on('foo', onFoo);
+        remote.on('foo', onBar);
+        third.on('foo', onThird);
+
+        local.emit('foo', 'hello');
+        await delivery();
+
+        expect(onFoo).toHaveBeenCalledTimes(1);
+        expect(onBar).toHaveBeenCalledTimes(1);
+        expect(onThird).toHaveBeenCalledTimes(1);
+      } finally {
+        a.port1.close();
+        b.port1.close();
+      }
+    });
+  });
+
+  describe('options', () => {
+    it('ignores messages posted on other channels', async () => {
+      bridge(local, localPort, {events: 'foo', channel: 'one'});
+      bridge(remote, remotePort, {events: 'foo', channel: 'two'});
+      remote.on('foo', onFoo);
+
+      local.emit('foo', 'hello');
+      await delivery();
+
+      expect(onFoo).not.toHaveBeenCalled();
+    });
+
+    it('serializes and deserializes payloads', async () => {
+      bridge(local, localPort, {
+        events: 'bar',
+        serialize: (event, payload) => ({wrapped: payload})
+      });
+      bridge(remote, remotePort, {
+        events: 'bar',
+        deserialize: (event, data) => data.wrapped * 2
+      });
+      remote.on('bar', onBar);
+
+      local.emit('bar', 21);
+      await delivery();
+
+      expect(onBar).toHaveBeenCalledWith(42);
+    });
+  });
+
+  describe('teardown', () => {
+    it('stops forwarding when the subscription is invoked', async () => {
+      const sub = bridge(local, localPort, {events: 'foo'});
+      bridge(remote, remotePort, {events: 'foo'});
+      remote.on('foo', onFoo);
+
+      sub();
+      local.emit('foo', 'hello');
+      await delivery();
+
+      expect(onFoo).not.toHaveBeenCalled();
+      expect(local.hasListeners).toBeFalse();
+    });
+
+    it('stops receiving when the bus is destroyed', async () => {
+      bridge(local, localPort, {events: 'foo'});
+      bridge(remote, remotePort, {events: 'foo'});
+      remote.destroy();
+      const emit = spyOn(remote, 'emit');
+
+      local.emit('foo', 'hello');
+      await delivery();
+
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {autobind} from 'core-decorators';
+
+import * as Events from './types/events';
+import {symbolObservable} from './utils/symbolObservable';
+
+
+export namespace EventStream {
+
+  export interface Observer<T> {
+    next?: (value: T) => void;
+    error?: (err: any) => void;
+    complete?: () => void;
+  }
+
+  export interface Subscription {
+    unsubscribe: () => void;
+    readonly closed: boolean;
+  }
+
+  /**
+   * Subscribes to the underlying events, invoking `next` for each value and `complete` when no more values will be produced
+   */
+  export type Source<T> = (observer: Required<Pick<Observer<T>, 'next'|'complete'>>) => Events.Subscription;
+}
+
+/**
+ * A stream of event payloads, compatible with TC39 Observables (e.g. RxJS `from`) and usable as an `AsyncIterable`.
+ * Each subscription, and each iteration, subscribes to the underlying events independently
+ * @typeParam T - values produced by the stream
+ */
+@autobind
+export class EventStream<T> implements AsyncIterable<T> {
+  private readonly source: EventStream.Source<T>;
+
+  constructor(source: EventStream.Source<T>) {
+    this.source = source;
+  }
+
+  public subscribe(observerOrNext?: EventStream.Observer<T>|((value: T) => void)): EventStream.Subscription {
+    const observer: EventStream.Observer<T> = typeof observerOrNext === 'function'
+      ? {next: observerOrNext}
+      : observerOrNext || {};
+    let closed = false;
+    let sourceSubscription: Events.Subscription;
+
+    const unsubscribe = () => {
+      if(!closed) {
+        closed = true;
+        sourceSubscription?.();
+      }
+    };
+
+    sourceSubscription = this.source({
+      next: value => {
+        if(!closed) {
+          observer.next?.(value);
+        }
+      },
+      complete: () => {
+        if(!closed) {
+          unsubscribe();
+          observer.complete?.();
+        }
+      }
+    });
+    // the source completed while subscribing
+    if(closed) {
+      sourceSubscription();
+    }
+
+    return {
+      unsubscribe,
+      get closed() {
+        return closed;
+      }
+    };
+  }
+
+  /**
+   * Values produced before they are requested are buffered.
+   * Calling `return()`, e.g. by breaking out of a `for await` loop, unsubscribes from the underlying events
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    const buffer: T[] = [];
+    const pending: ((result: IteratorResult<T>) => void)[] = [];
+    let done = false;
+
+    const finish = () => {
+      done = true;
+      subscription?.unsubscribe();
+      pending.splice(0).forEach(resolve => resolve({value: undefined, done: true}));
+    };
+
+    const subscription = this.subscribe({
+      next: value => {
+        if(pending.length) {
+          pending.shift()({value, done: false});
+        } else {
+          buffer.push(value);
+        }
+      },
+      complete: finish
+    });
+
+    return {
+      next: () => {
+        if(buffer.length) {
+          return Promise.resolve({value: buffer.shift(), done: false});
+        } else if(done) {
+          return Promise.resolve({value: undefined, done: true});
+        } else {
+          return new Promise<IteratorResult<T>>(resolve => pending.push(resolve));
+        }
+      },
+      return: () => {
+        buffer.length = 0;
+        finish();
+        return Promise.resolve({value: undefined, done: true});
+      }
+    };
+  }
+}
+
+// interop with Observable libraries, which look up `Symbol.observable` or `"@@observable"`
+for(const key of new Set([symbolObservable, '@@observable'])) {
+  Object.defineProperty(EventStream.prototype, key, {
+    value(this: EventStream<any>) {
+      return this;
+    }
+  });
+}
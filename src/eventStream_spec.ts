@@ -0,0 +1,109 @@
+import {sleep} from 'jaasync/lib/cancelable';
+
+import {EventStream} from './eventStream';
+import {Bus} from './strongbus';
+
+type TestEventMap = {
+  tick: number;
+  tock: string;
+};
+
+
+describe('EventStream', () => {
+  let bus: Bus<TestEventMap>;
+  let stream: EventStream<number>;
+  let onNext: jasmine.Spy;
+  let onComplete: jasmine.Spy;
+
+  beforeEach(() => {
+    bus = new Bus<TestEventMap>();
+    stream = bus.observe('tick');
+    onNext = jasmine.createSpy('onNext');
+    onComplete = jasmine.createSpy('onComplete');
+  });
+
+  describe('#subscribe', () => {
+    it('invokes the observer with each payload', () => {
+      stream.subscribe({next: onNext});
+      bus.emit('tick', 1);
+      bus.emit('tock', 'one');
+      bus.emit('tick', 2);
+
+      expect(onNext.calls.allArgs()).toEqual([[1], [2]]);
+    });
+
+    it('accepts a next function in place of an observer', () => {
+      stream.subscribe(onNext);
+      bus.emit('tick', 1);
+
+      expect(onNext).toHaveBeenCalledWith(1);
+    });
+
+    it('returns a subscription that removes the listener from the bus', () => {
+      const subscription = stream.subscribe({next: onNext, complete: onComplete});
+      expect(bus.hasListenersFor('tick')).toBe(true);
+
+      subscription.unsubscribe();
+      expect(subscription.closed).toBe(true);
+      expect(bus.hasListenersFor('tick')).toBe(false);
+
+      bus.emit('tick', 1);
+      expect(onNext).not.toHaveBeenCalled();
+      expect(onComplete).not.toHaveBeenCalled();
+    });
+
+    describe('given the bus is destroyed', () => {
+      it('completes the stream', () => {
+        const subscription = stream.subscribe({next: onNext, complete: onComplete});
+        bus.destroy();
+
+        expect(onComplete).toHaveBeenCalledTimes(1);
+        expect(subscription.closed).toBe(true);
+      });
+    });
+  });
+
+  describe('Observable interop', () => {
+    it('returns itself from the "@@observable" method', () => {
+      expect((stream as any)['@@observable']()).toBe(stream);
+    });
+  });
+
+  describe('AsyncIterable interop', () => {
+    it('yields each payload, including those raised before they are requested', async () => {
+      const values: number[] = [];
+      const iteration = (async () => {
+        for await (const value of bus.stream('tick')) {
+          values.push(value);
+          if(values.length === 3) {
+            break;
+          }
+        }
+      })();
+
+      bus.emit('tick', 1);
+      bus.emit('tick', 2);
+      await sleep(1);
+      bus.emit('tick', 3);
+      await iteration;
+
+      expect(values).toEqual([1, 2, 3]);
+    });
+
+    it('unsubscribes when the iteration is returned', async () => {
+      const iterator = stream[Symbol.asyncIterator]();
+      expect(bus.hasListenersFor('tick')).toBe(true);
+
+      expect(await iterator.return()).toEqual({value: undefined, done: true});
+      expect(bus.hasListenersFor('tick')).toBe(false);
+    });
+
+    it('finishes the iteration when the bus is destroyed', async () => {
+      const iterator = stream[Symbol.asyncIterator]();
+      const next = iterator.next();
+      bus.destroy();
+
+      expect(await next).toEqual({value: undefined, done: true});
+    });
+  });
+});
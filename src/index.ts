@@ -1,10 +1,28 @@
 export {Bus} from './strongbus';
 export {Scanner} from './scanner';
+export {EventStream} from './eventStream';
+export {InMemoryMetricsSink, toPrometheus} from './metrics';
+export {activeSpanContext, noopTracer, RecordedSpan, RecordingTracer, withSpanContext} from './tracing';
 export {generateSubscription} from './utils/generateSubscription';
+export {createValidators} from './utils/createValidators';
+export {bridge} from './bridge';
+export {RemoteBus} from './remoteBus';
+export {Recorder} from './recorder';
+export {Replayer} from './replayer';
+export {createMachine, Machine} from './machine';
+export {runSaga} from './saga';
 
+export * from './types/composition';
+export * from './types/dispatch';
 export * from './types/events';
+export * from './types/history';
 export * from './types/eventHandlers';
 export * from './types/lifecycle';
+export * from './types/metrics';
+export * from './types/middleware';
 export * from './types/options';
+export * from './types/recording';
 export * from './types/scannable';
+export * from './types/tracing';
+export * from './types/validation';
 export {EventKeys} from './types/utility';
\ No newline at end of file
@@ -0,0 +1,154 @@
+import {autobind} from 'core-decorators';
+import {CancelablePromise} from 'jaasync/lib/cancelable';
+
+import {Bus} from './strongbus';
+import * as Events from './types/events';
+import {Lifecycle} from './types/lifecycle';
+import {Options as BusOptions} from './types/options';
+import {EventKeys, NoInfer} from './types/utility';
+import {generateSubscription} from './utils/generateSubscription';
+import {over} from './utils/over';
+
+
+/**
+ * A finite state machine driven by the events of a [[Bus]], created with [[createMachine]].
+ * Each transition raises `exit:<from>`, `enter:<to>` and then `transition` on the machine, which is itself a Bus.
+ * The machine is destroyed when the bus driving it is
+ */
+@autobind
+export class Machine<TEventMap extends object, TState extends string> extends Bus<Machine.EventMap<TEventMap, TState>> {
+
+  private _state: TState;
+  private readonly states: Machine.Config<TEventMap, TState>['states'];
+  private readonly teardown: Events.Subscription;
+
+  constructor(source: Bus<TEventMap, any>, config: Machine.Config<TEventMap, TState>, options?: BusOptions<Machine.EventMap<TEventMap, TState>>) {
+    super(options);
+    const {initial, states} = config;
+    this.states = states;
+    this.assertState(initial);
+    this._state = initial;
+
+    const events = new Set<EventKeys<TEventMap>>();
+    Object.keys(states).forEach((state: TState) => {
+      const transitions: StateTransitions<TEventMap, TState> = states[state].on || {};
+      (Object.keys(transitions) as EventKeys<TEventMap>[]).forEach(event => {
+        const target = transitions[event];
+        if(typeof target === 'string') {
+          this.assertState(target);
+        }
+        events.add(event);
+      });
+    });
+    this.teardown = generateSubscription(over([
+      source.any([...events], this.handle),
+      source.hook(Lifecycle.willDestroy, () => this.destroy())
+    ]));
+    this.hook(Lifecycle.willDestroy, this.teardown);
+  }
+
+  /**
+   * The current state
+   */
+  public get state(): TState {
+    return this._state;
+  }
+
+  /**
+   * Resolves once the machine is in `state`, immediately if it already is
+   */
+  public when<S extends TState>(state: S): CancelablePromise<S> {
+    this.assertState(state);
+    return this.scan<S>({
+      evaluator: resolve => {
+        if(this._state === state) {
+          resolve(state);
+        }
+      },
+      trigger: 'transition'
+    });
+  }
+
+  private handle<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): void {
+    const from = this._state;
+    const transitions: StateTransitions<TEventMap, TState> = this.states[from].on || {};
+    const target: Machine.Target<TEventMap, TState, T> = transitions[event];
+    const to = typeof target === 'function' ? target(payload, from) : target;
+    if(!to) {
+      return;
+    }
+    this.assertState(to);
+    const transition: Machine.Transition<TEventMap, TState> = {from, to, event};
+    this.emit(stateEvent('exit', from), transition);
+    this._state = to;
+    this.emit(stateEvent('enter', to), transition);
+    this.emit('transition', transition);
+  }
+
+  private assertState(state: string): void {
+    if(!Object.prototype.hasOwnProperty.call(this.states, state)) {
+      throw new Error(`${this.name} has no state "${state}"`);
+    }
+  }
+}
+
+export namespace Machine {
+
+  /**
+   * Decides the state to transition to when an event is raised, from its payload and the current state.
+   * Returns nothing to remain in the current state
+   */
+  export type Guard<TEventMap extends object, TState extends string, T extends EventKeys<TEventMap>> =
+    (payload: TEventMap[T], state: TState) => TState|false|null|undefined|void;
+
+  export type Target<TEventMap extends object, TState extends string, T extends EventKeys<TEventMap>> =
+    TState|Guard<TEventMap, TState, T>;
+
+  /**
+   * @prop on - the state to transition to, or a [[Guard]] deciding it, for each event handled in the state
+   */
+  export interface StateConfig<TEventMap extends object, TState extends string> {
+    on?: StateTransitions<TEventMap, TState>;
+  }
+
+  /**
+   * The states are inferred from the keys of `states`
+   */
+  export interface Config<TEventMap extends object, TState extends string> {
+    initial: NoInfer<TState>;
+    states: {[S in TState]: StateConfig<TEventMap, NoInfer<TState>>};
+  }
+
+  export interface Transition<TEventMap extends object, TState extends string> {
+    from: TState;
+    to: TState;
+    event: EventKeys<TEventMap>;
+  }
+
+  /**
+   * The events a [[Machine]] raises for each transition
+   */
+  export type EventMap<TEventMap extends object, TState extends string> =
+    {[E in 'transition'|`enter:${TState}`|`exit:${TState}`]: Transition<TEventMap, TState>};
+}
+
+/**
+ * The event a [[Machine]] raises when entering or exiting a state
+ */
+function stateEvent<P extends 'enter'|'exit', S extends string>(prefix: P, state: S): `${P}:${S}`;
+function stateEvent(prefix: string, state: string): string {
+  return `${prefix}:${state}`;
+}
+
+type StateTransitions<TEventMap extends object, TState extends string> = {[T in EventKeys<TEventMap>]?: Machine.Target<TEventMap, TState, T>};
+
+/**
+ * Create a [[Machine]] driven by the events of `bus`, starting in `config.initial`
+ */
+export function createMachine<TEventMap extends object, TState extends string>(
+  bus: Bus<TEventMap, any>,
+  config: Machine.Config<TEventMap, TState>,
+  options?: BusOptions<Machine.EventMap<TEventMap, TState>>
+): Machine<TEventMap, TState> {
+  return new Machine(bus, config, options);
+}
@@ -0,0 +1,105 @@
+import {sleep} from 'jaasync/lib/cancelable';
+
+import {createMachine, Machine} from './machine';
+import {Bus} from './strongbus';
+
+type TestEventMap = {
+  start: string;
+  progress: number;
+  cancel: void;
+};
+
+
+describe('createMachine', () => {
+  let bus: Bus<TestEventMap>;
+  let machine: Machine<TestEventMap, 'idle'|'running'|'done'>;
+
+  beforeEach(() => {
+    bus = new Bus<TestEventMap>();
+    machine = createMachine(bus, {
+      initial: 'idle',
+      states: {
+        idle: {on: {start: 'running'}},
+        running: {on: {progress: percent => percent >= 100 ? 'done' : undefined, cancel: 'idle'}},
+        done: {}
+      }
+    }, {name: 'Job'});
+  });
+
+  it('starts in the initial state', () => {
+    expect(machine.state).toBe('idle');
+  });
+
+  it('transitions when the bus raises the events of the current state', () => {
+    bus.emit('progress', 100);
+    expect(machine.state).toBe('idle');
+
+    bus.emit('start', 'job');
+    expect(machine.state).toBe('running');
+  });
+
+  it('transitions to the state a guard returns, or remains in the state when it returns nothing', () => {
+    bus.emit('start', 'job');
+    bus.emit('progress', 50);
+    expect(machine.state).toBe('running');
+
+    bus.emit('progress', 100);
+    expect(machine.state).toBe('done');
+  });
+
+  it('raises exit, enter and transition events on the machine', () => {
+    const raised: any[] = [];
+    machine.every((event, payload) => raised.push([event, payload]));
+
+    bus.emit('start', 'job');
+
+    const transition = {from: 'idle', to: 'running', event: 'start'};
+    expect(raised).toEqual([['exit:idle', transition], ['enter:running', transition], ['transition', transition]]);
+  });
+
+  describe('#when', () => {
+    it('resolves once the machine is in the state', async () => {
+      const done = machine.when('done');
+      bus.emit('start', 'job');
+      bus.emit('progress', 100);
+
+      await expectAsync(done).toBeResolvedTo('done');
+      expect(machine.hasListeners).toBeFalse();
+    });
+
+    it('resolves immediately when the machine is already in the state', async () => {
+      await expectAsync(machine.when('idle')).toBeResolvedTo('idle');
+    });
+
+    it('rejects when the machine is destroyed first', async () => {
+      const done = machine.when('done');
+      machine.destroy();
+
+      await expectAsync(done).toBeRejectedWith('All Scannables have been destroyed');
+    });
+  });
+
+  it('is destroyed with the bus driving it', async () => {
+    const onDestroy = jasmine.createSpy('onDestroy');
+    machine.hook('willDestroy', onDestroy);
+
+    bus.destroy();
+    await sleep(1);
+
+    expect(onDestroy).toHaveBeenCalled();
+  });
+
+  it('unsubscribes from the bus when destroyed', () => {
+    machine.destroy();
+    expect(bus.hasListeners).toBeFalse();
+
+    bus.emit('start', 'job');
+    expect(machine.state).toBe('idle');
+  });
+
+  it('rejects unknown states', () => {
+    expect(() => createMachine(bus, {initial: 'idle', states: {idle: {on: {start: 'running' as 'idle'}}}}))
+      .toThrowError('Anonymous Machine has no state "running"');
+    expect(() => machine.when('stopped' as 'done')).toThrowError('Job Machine has no state "stopped"');
+  });
+});
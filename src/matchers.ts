@@ -0,0 +1,96 @@
+import {Bus} from './strongbus';
+import {TestBus} from './testBus';
+import * as Events from './types/events';
+
+
+declare global {
+  namespace jasmine {
+    interface Matchers<T> {
+      /**
+       * Expect a [[TestBus]] to have dispatched the event, with a payload equal to `payload` if given
+       */
+      toHaveEmitted(event: string, payload?: any): boolean;
+      /**
+       * Expect a [[Bus]] or its delegates to have listeners for the event
+       */
+      toHaveListenersFor(event: Events.ListenerKey<string>): boolean;
+    }
+  }
+  namespace jest {
+    interface Matchers<R, T = {}> {
+      toHaveEmitted(event: string, payload?: any): R;
+      toHaveListenersFor(event: Events.ListenerKey<string>): R;
+    }
+  }
+}
+
+/**
+ * @prop message - describes why the expectation failed, or why its negation failed when `pass` is `true`
+ */
+interface MatcherResult {
+  pass: boolean;
+  message: string;
+}
+
+type Equals = (a: any, b: any) => boolean;
+
+function format(value: any): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch(e) {
+    return String(value);
+  }
+}
+
+function toHaveEmitted(actual: TestBus<any>, equals: Equals, event: string, ...payload: [any?]): MatcherResult {
+  if(!(actual instanceof TestBus)) {
+    return {pass: false, message: `Expected a TestBus, but was ${format(actual)}`};
+  }
+  const withPayload = payload.length ? ` with ${format(payload[0])}` : '';
+  const emissions = actual.emitted(event);
+  const pass = payload.length ? emissions.some(emission => equals(emission.payload, payload[0])) : emissions.length > 0;
+  const emitted = emissions.length ? `it emitted ${emissions.map(emission => format(emission.payload)).join(', ')}` : 'it was not emitted';
+  return {
+    pass,
+    message: pass
+      ? `Expected ${actual.name} not to have emitted "${event}"${withPayload}`
+      : `Expected ${actual.name} to have emitted "${event}"${withPayload}, but ${emitted}`
+  };
+}
+
+function toHaveListenersFor(actual: Bus<any, any>, event: Events.ListenerKey<string>): MatcherResult {
+  if(!(actual instanceof Bus)) {
+    return {pass: false, message: `Expected a Bus, but was ${format(actual)}`};
+  }
+  const pass = actual.hasListenersFor(event);
+  return {
+    pass,
+    message: `Expected ${actual.name} ${pass ? 'not ' : ''}to have listeners for "${event}"`
+  };
+}
+
+/**
+ * Matchers for jasmine, installed with `jasmine.addMatchers(jasmineMatchers)` in a `beforeEach`
+ */
+export const jasmineMatchers = {
+  toHaveEmitted: (util: {equals: Equals}) => ({
+    compare: (actual: TestBus<any>, event: string, ...payload: [any?]) => toHaveEmitted(actual, (a, b) => util.equals(a, b), event, ...payload)
+  }),
+  toHaveListenersFor: () => ({
+    compare: (actual: Bus<any, any>, event: Events.ListenerKey<string>) => toHaveListenersFor(actual, event)
+  })
+};
+
+/**
+ * Matchers for jest, installed with `expect.extend(jestMatchers)`
+ */
+export const jestMatchers = {
+  toHaveEmitted(this: {equals: Equals}, actual: TestBus<any>, event: string, ...payload: [any?]) {
+    const {pass, message} = toHaveEmitted(actual, this.equals, event, ...payload);
+    return {pass, message: () => message};
+  },
+  toHaveListenersFor(actual: Bus<any, any>, event: Events.ListenerKey<string>) {
+    const {pass, message} = toHaveListenersFor(actual, event);
+    return {pass, message: () => message};
+  }
+};
@@ -0,0 +1,108 @@
+import {BusMetrics, EventMetrics, MetricsSink} from './types/metrics';
+
+
+/**
+ * A [[MetricsSink]] that aggregates measurements in memory, by bus name and event
+ */
+export class InMemoryMetricsSink implements MetricsSink {
+  private readonly buses = new Map<string, Map<string, EventMetrics>>();
+
+  public recordEmit(bus: string, event: string, handled: boolean): void {
+    const metrics = this.get(bus, event);
+    metrics.emits++;
+    if(handled) {
+      metrics.handled++;
+    } else {
+      metrics.unhandled++;
+    }
+  }
+
+  public recordHandler(bus: string, event: string, duration: number, failed: boolean): void {
+    const metrics = this.get(bus, event);
+    metrics.handlerCalls++;
+    if(failed) {
+      metrics.handlerErrors++;
+    }
+    metrics.handlerDuration.total += duration;
+    metrics.handlerDuration.max = Math.max(metrics.handlerDuration.max, duration);
+  }
+
+  public recordListeners(bus: string, event: string, count: number): void {
+    this.get(bus, event).listeners = count;
+  }
+
+  public recordFanOut(bus: string, event: string, delegates: number): void {
+    this.get(bus, event).fanOut += delegates;
+  }
+
+  /**
+   * A copy of the measurements, `{[bus]: BusMetrics}`
+   */
+  public snapshot(): {[bus: string]: BusMetrics} {
+    const snapshot: {[bus: string]: BusMetrics} = {};
+    this.buses.forEach((events, bus) => {
+      snapshot[bus] = {};
+      events.forEach((metrics, event) => {
+        snapshot[bus][event] = {...metrics, handlerDuration: {...metrics.handlerDuration}};
+      });
+    });
+    return snapshot;
+  }
+
+  public reset(): void {
+    this.buses.clear();
+  }
+
+  private get(bus: string, event: string): EventMetrics {
+    let events = this.buses.get(bus);
+    if(!events) {
+      events = new Map();
+      this.buses.set(bus, events);
+    }
+    let metrics = events.get(event);
+    if(!metrics) {
+      metrics = {
+        emits: 0,
+        handled: 0,
+        unhandled: 0,
+        handlerCalls: 0,
+        handlerErrors: 0,
+        handlerDuration: {total: 0, max: 0},
+        listeners: 0,
+        fanOut: 0
+      };
+      events.set(event, metrics);
+    }
+    return metrics;
+  }
+}
+
+const prometheusMetrics: {name: string, type: 'counter'|'gauge', help: string, value: (metrics: EventMetrics) => number}[] = [
+  {name: 'strongbus_emits_total', type: 'counter', help: 'Events raised', value: m => m.emits},
+  {name: 'strongbus_handled_total', type: 'counter', help: 'Events raised with handlers', value: m => m.handled},
+  {name: 'strongbus_unhandled_total', type: 'counter', help: 'Events raised without handlers', value: m => m.unhandled},
+  {name: 'strongbus_handler_calls_total', type: 'counter', help: 'Handler invocations settled', value: m => m.handlerCalls},
+  {name: 'strongbus_handler_errors_total', type: 'counter', help: 'Handler invocations that threw or rejected', value: m => m.handlerErrors},
+  {name: 'strongbus_handler_duration_ms_sum', type: 'counter', help: 'Total milliseconds handlers took to settle', value: m => m.handlerDuration.total},
+  {name: 'strongbus_handler_duration_ms_max', type: 'gauge', help: 'Maximum milliseconds a handler took to settle', value: m => m.handlerDuration.max},
+  {name: 'strongbus_listeners', type: 'gauge', help: 'Current listeners', value: m => m.listeners},
+  {name: 'strongbus_fan_out_total', type: 'counter', help: 'Deliveries to delegates', value: m => m.fanOut}
+];
+
+/**
+ * Format measurements in the Prometheus text exposition format, labelled by `bus` and `event`
+ * @param snapshot - `{[bus]: BusMetrics}`, e.g. from [[InMemoryMetricsSink.snapshot]]
+ */
+export function toPrometheus(snapshot: {[bus: string]: BusMetrics}): string {
+  const label = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  const lines: string[] = [];
+  for(const {name, type, help, value} of prometheusMetrics) {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for(const bus of Object.keys(snapshot)) {
+      for(const event of Object.keys(snapshot[bus])) {
+        lines.push(`${name}{bus="${label(bus)}",event="${label(event)}"} ${value(snapshot[bus][event])}`);
+      }
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,66 @@
+import {InMemoryMetricsSink, toPrometheus} from './metrics';
+
+
+describe('InMemoryMetricsSink', () => {
+  let sink: InMemoryMetricsSink;
+
+  beforeEach(() => {
+    sink = new InMemoryMetricsSink();
+  });
+
+  it('aggregates measurements by bus and event', () => {
+    sink.recordEmit('a', 'foo', true);
+    sink.recordEmit('a', 'foo', false);
+    sink.recordHandler('a', 'foo', 5, false);
+    sink.recordHandler('a', 'foo', 3, true);
+    sink.recordListeners('a', 'foo', 2);
+    sink.recordFanOut('a', 'foo', 3);
+    sink.recordEmit('b', 'bar', true);
+
+    expect(sink.snapshot()).toEqual({
+      a: {
+        foo: {
+          emits: 2,
+          handled: 1,
+          unhandled: 1,
+          handlerCalls: 2,
+          handlerErrors: 1,
+          handlerDuration: {total: 8, max: 5},
+          listeners: 2,
+          fanOut: 3
+        }
+      },
+      b: {
+        bar: jasmine.objectContaining({emits: 1, handled: 1})
+      }
+    });
+  });
+
+  it('returns a copy of its measurements', () => {
+    sink.recordHandler('a', 'foo', 5, false);
+    const snapshot = sink.snapshot();
+    sink.recordHandler('a', 'foo', 7, false);
+
+    expect(snapshot.a.foo.handlerDuration).toEqual({total: 5, max: 5});
+  });
+
+  it('#reset clears its measurements', () => {
+    sink.recordEmit('a', 'foo', true);
+    sink.reset();
+    expect(sink.snapshot()).toEqual({});
+  });
+});
+
+describe('toPrometheus', () => {
+  it('formats measurements labelled by bus and event', () => {
+    const sink = new InMemoryMetricsSink();
+    sink.recordEmit('main "Bus"', 'foo', true);
+    sink.recordListeners('main "Bus"', '*', 4);
+
+    const text = toPrometheus(sink.snapshot());
+    expect(text).toContain('# TYPE strongbus_emits_total counter\n');
+    expect(text).toContain('strongbus_emits_total{bus="main \\"Bus\\"",event="foo"} 1\n');
+    expect(text).toContain('# TYPE strongbus_listeners gauge\n');
+    expect(text).toContain('strongbus_listeners{bus="main \\"Bus\\"",event="*"} 4\n');
+  });
+});
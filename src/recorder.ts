@@ -0,0 +1,110 @@
+import {autobind} from 'core-decorators';
+
+import {Bus} from './strongbus';
+import {Emission} from './types/dispatch';
+import * as Events from './types/events';
+import {Lifecycle} from './types/lifecycle';
+import {RecordedBus, RecordedEvent, Recording} from './types/recording';
+import {generateSubscription} from './utils/generateSubscription';
+
+
+interface Capture {
+  bus: string;
+  emission: Emission<any>;
+  timestamp: number;
+}
+
+/**
+ * Captures the events dispatched on one or more buses, to export as a [[Recording]] and re-emit with a [[Replayer]].
+ * Events are captured after they pass through [[Middleware]], along with whether they were handled.
+ * Payloads must be JSON serializable for the recording to be exported with `JSON.stringify`
+ */
+@autobind
+export class Recorder {
+  private readonly buses = new Map<string, Bus<any, any>>();
+  private readonly subscriptions = new Map<Bus<any, any>, Events.Subscription>();
+  private readonly captured: Capture[] = [];
+
+  constructor(...buses: Bus<any, any>[]) {
+    buses.forEach(bus => this.attach(bus));
+  }
+
+  /**
+   * Record the events dispatched on a bus and on the buses it pipes to, recursively.
+   * Events forwarded through pipes are recorded on each bus they are dispatched on, and marked as forwarded on the delegates.
+   * The delegates are collected when the bus is attached: buses piped afterwards are not recorded unless they are attached too,
+   * and buses unpiped afterwards are still recorded until detached. The recording's pipes are those between recorded buses when it is exported.
+   * Returns a Subscription that stops recording the buses attached by this call
+   * @throws if a different bus with the same name is attached, as recorded events identify their bus by name
+   */
+  public attach(bus: Bus<any, any>): Events.Subscription {
+    const attaching = this.collect(bus, new Set());
+    attaching.forEach(b => {
+      const other = this.buses.get(b.name);
+      if(other && other !== b) {
+        throw new Error(`Recorder is already recording a different bus named "${b.name}"`);
+      }
+    });
+    const attached = Array.from(attaching).filter(b => !this.subscriptions.has(b));
+    attached.forEach(b => {
+      this.buses.set(b.name, b);
+      this.subscriptions.set(b, b.hook(Lifecycle.willDispatch, emission => {
+        this.captured.push({bus: b.name, emission, timestamp: Date.now()});
+      }));
+    });
+    return generateSubscription(() => attached.forEach(this.detach));
+  }
+
+  /**
+   * Stop recording all attached buses. Events already recorded, and the buses they were recorded on, are kept
+   */
+  public stop(): void {
+    Array.from(this.subscriptions.keys()).forEach(this.detach);
+  }
+
+  /**
+   * Forget the events recorded so far
+   */
+  public clear(): void {
+    this.captured.length = 0;
+  }
+
+  /**
+   * The events recorded so far, oldest first
+   */
+  public get events(): RecordedEvent[] {
+    return this.captured.map(({bus, emission, timestamp}) => ({
+      bus,
+      event: String(emission.event),
+      payload: emission.payload,
+      timestamp,
+      handled: emission.handled || false,
+      forwarded: emission.forwarded
+    }));
+  }
+
+  /**
+   * Export the recorded events and the pipes between the recorded buses
+   */
+  public toJSON(): Recording {
+    const buses: RecordedBus[] = [];
+    this.buses.forEach((bus, name) => buses.push({
+      name,
+      delegates: bus.delegates.map(d => d.name).filter(d => this.buses.has(d))
+    }));
+    return {version: 1, buses, events: this.events};
+  }
+
+  private detach(bus: Bus<any, any>): void {
+    this.subscriptions.get(bus)?.();
+    this.subscriptions.delete(bus);
+  }
+
+  private collect(bus: Bus<any, any>, buses: Set<Bus<any, any>>): Set<Bus<any, any>> {
+    if(!buses.has(bus)) {
+      buses.add(bus);
+      bus.delegates.forEach(d => this.collect(d, buses));
+    }
+    return buses;
+  }
+}
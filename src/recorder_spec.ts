@@ -0,0 +1,141 @@
+import {Recorder} from './recorder';
+import {Bus} from './strongbus';
+
+type TestEventMap = {
+  foo: string;
+  bar: number;
+};
+
+
+describe('Recorder', () => {
+  let app: Bus<TestEventMap>;
+  let feature: Bus<TestEventMap>;
+  let recorder: Recorder;
+
+  beforeEach(() => {
+    app = new Bus<TestEventMap>({name: 'App'});
+    feature = new Bus<TestEventMap>({name: 'Feature'});
+    recorder = new Recorder();
+  });
+
+  it('records the bus, event, payload, time and whether each event was handled', () => {
+    recorder.attach(app);
+    app.on('foo', () => undefined);
+    spyOn(Date, 'now').and.returnValue(1000);
+
+    app.emit('foo', 'one');
+    app.emit('bar', 2);
+
+    expect(recorder.events).toEqual([
+      {bus: 'App Bus', event: 'foo', payload: 'one', timestamp: 1000, handled: true, forwarded: false},
+      {bus: 'App Bus', event: 'bar', payload: 2, timestamp: 1000, handled: false, forwarded: false}
+    ]);
+  });
+
+  it('records events in the order they were raised', () => {
+    recorder.attach(app);
+    app.on('foo', () => app.emit('bar', 1));
+
+    app.emit('foo', 'one');
+
+    expect(recorder.events.map(e => e.event)).toEqual(['foo', 'bar']);
+  });
+
+  it('records payloads after middleware', () => {
+    recorder.attach(app);
+    app.use((event, payload, next) => next(event === 'foo' ? 'replaced' as any : payload));
+
+    app.emit('foo', 'one');
+
+    expect(recorder.events[0].payload).toBe('replaced');
+  });
+
+  it('records whether events raised with emitAsync were handled once they settle', async () => {
+    recorder.attach(app);
+    app.on('foo', async () => undefined);
+
+    await app.emitAsync('foo', 'one');
+
+    expect(recorder.events[0].handled).toBeTrue();
+  });
+
+  describe('given piped buses', () => {
+    beforeEach(() => {
+      app.pipe(feature);
+      feature.on('foo', () => undefined);
+    });
+
+    it('attaches the buses the attached bus pipes to', () => {
+      recorder.attach(app);
+
+      app.emit('foo', 'one');
+      feature.emit('bar', 2);
+
+      expect(recorder.events.map(({bus, event, forwarded}) => ({bus, event, forwarded}))).toEqual([
+        {bus: 'App Bus', event: 'foo', forwarded: false},
+        {bus: 'Feature Bus', event: 'foo', forwarded: true},
+        {bus: 'Feature Bus', event: 'bar', forwarded: false}
+      ]);
+    });
+
+    it('marks events forwarded with emitCancelable and emitAsync', async () => {
+      recorder.attach(app);
+
+      app.emitCancelable('foo', 'one');
+      await app.emitAsync('foo', 'two');
+
+      expect(recorder.events.map(e => e.forwarded)).toEqual([false, true, false, true]);
+      expect(recorder.events.map(e => e.handled)).toEqual([true, true, true, true]);
+    });
+
+    it('does not mark events raised by delegates\' handlers as forwarded', () => {
+      feature.on('foo', () => feature.emit('bar', 1));
+      recorder.attach(app);
+
+      app.emit('foo', 'one');
+
+      expect(recorder.events.map(({bus, event, forwarded}) => ({bus, event, forwarded}))).toEqual([
+        {bus: 'App Bus', event: 'foo', forwarded: false},
+        {bus: 'Feature Bus', event: 'foo', forwarded: true},
+        {bus: 'Feature Bus', event: 'bar', forwarded: false}
+      ]);
+    });
+
+    it('exports the recording as JSON, including the pipes', () => {
+      recorder.attach(app);
+      app.emit('foo', 'one');
+
+      const recording = JSON.parse(JSON.stringify(recorder));
+      expect(recording.version).toBe(1);
+      expect(recording.buses).toEqual([
+        {name: 'App Bus', delegates: ['Feature Bus']},
+        {name: 'Feature Bus', delegates: []}
+      ]);
+      expect(recording.events.length).toBe(2);
+    });
+  });
+
+  it('stops recording when detached', () => {
+    const sub = recorder.attach(app);
+    app.emit('foo', 'one');
+    sub();
+    app.emit('foo', 'two');
+
+    expect(recorder.events.length).toBe(1);
+    expect(recorder.toJSON().buses).toEqual([{name: 'App Bus', delegates: []}]);
+  });
+
+  it('refuses to attach buses with the same name', () => {
+    recorder.attach(app);
+    expect(() => recorder.attach(new Bus<TestEventMap>({name: 'App'})))
+      .toThrowError('Recorder is already recording a different bus named "App Bus"');
+  });
+
+  it('#clear forgets recorded events', () => {
+    recorder = new Recorder(app);
+    app.emit('foo', 'one');
+    recorder.clear();
+
+    expect(recorder.events).toEqual([]);
+  });
+});
@@ -0,0 +1,407 @@
+import {autobind} from 'core-decorators';
+import {timeout} from 'jaasync/lib/timeout';
+
+import {Bus} from './strongbus';
+import {EmitResult} from './types/dispatch';
+import * as Events from './types/events';
+import * as EventHandlers from './types/eventHandlers';
+import {Lifecycle} from './types/lifecycle';
+import {Options as BusOptions} from './types/options';
+import {EventKeys} from './types/utility';
+import {generateSubscription} from './utils/generateSubscription';
+import {over} from './utils/over';
+import {isPattern, matchingPatterns} from './utils/patterns';
+import {randomId} from './utils/randomId';
+
+
+/**
+ * A [[Bus]] for a bus in another process, reached over a [[RemoteBus.Connection]].
+ * Subscribing to the RemoteBus subscribes to the peer's exposed bus, and emitting on the RemoteBus raises the event on the peer's exposed bus.
+ * The RemoteBus knows which events the peer's exposed bus has listeners for, so it only sends events that will be handled,
+ * and [[Bus.hasListenersFor]] reflects the peer's listeners. It may be piped into like any other bus.
+ * Connect both ends of the connection with a RemoteBus, passing the bus to share as `options.expose`
+ */
+@autobind
+export class RemoteBus<TEventMap extends object = object> extends Bus<TEventMap> {
+
+  private readonly connection: RemoteBus.Connection;
+  private readonly protocol: RemoteBus.Protocol;
+  private readonly exposed: Bus<TEventMap, any>|undefined;
+  private readonly ackTimeout: number;
+  private readonly teardown: Events.Subscription;
+
+  // what this bus has subscribed to on the peer
+  private readonly subscribed = new Set<Events.ListenerKey<EventKeys<TEventMap>>>();
+  // what the peer's exposed bus has listeners for
+  private readonly remoteListeners = new Set<Events.ListenerKey<EventKeys<TEventMap>>>();
+  // what the peer has subscribed to on the exposed bus
+  private readonly relays = new Map<Events.ListenerKey<EventKeys<TEventMap>>, {handler: EventHandlers.GenericHandler, sub: Events.Subscription}>();
+  // what the peer has been told the exposed bus has listeners for
+  private readonly announced = new Set<Events.ListenerKey<EventKeys<TEventMap>>>();
+  private readonly acks = new Map<string, {resolve: (handled: boolean) => void, reject: (e: Error) => void}>();
+
+  constructor(connection: RemoteBus.Connection, options: RemoteBus.Options<TEventMap> = {}) {
+    super(options);
+    const {expose, protocol = RemoteBus.jsonProtocol, ackTimeout = Infinity} = options;
+    this.connection = connection;
+    this.protocol = protocol;
+    this.exposed = expose;
+    this.ackTimeout = ackTimeout;
+
+    const decode = protocol.createDecoder(error => this.emitLifecycleEvent(Lifecycle.error, {error, event: undefined}));
+    const subs = [
+      connection.receive(data => {
+        let frames: RemoteBus.Frame[];
+        try {
+          frames = decode(data);
+        } catch(error) {
+          this.emitLifecycleEvent(Lifecycle.error, {error, event: undefined});
+          return;
+        }
+        frames.forEach(this.receive);
+      }),
+      this.hook(Lifecycle.didAddListener, this.syncSubscription),
+      this.hook(Lifecycle.didRemoveListener, this.syncSubscription)
+    ];
+    if(expose) {
+      subs.push(
+        expose.hook(Lifecycle.didAddListener, this.announce),
+        expose.hook(Lifecycle.didRemoveListener, this.announce),
+        expose.hook(Lifecycle.willDestroy, this.withdraw)
+      );
+      expose.listeners.forEach((_, event) => this.announce(event));
+    }
+    this.teardown = generateSubscription(over(subs));
+    this.hook(Lifecycle.willDestroy, this.disconnect);
+  }
+
+  /**
+   * Raise an event on the peer's exposed bus, if it has listeners for the event
+   * @returns whether the peer has listeners for the event
+   */
+  public emit<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): boolean {
+    if(event === Events.WILDCARD) {
+      throw new Error(`Do not emit "${event}" manually. Reserved for internal use.`);
+    }
+    const listening = this.hasRemoteListenersFor(event);
+    if(listening) {
+      this.send({type: 'emit', event, payload});
+    }
+    return listening;
+  }
+
+  /**
+   * Raise an event on the peer's exposed bus, resolving when the peer acknowledges that its handlers have settled.
+   * Rejects with a `TimeoutExpiredError` if the peer has not acknowledged the event within `options.ackTimeout`.
+   * Errors thrown by the peer's handlers are not reported, and events intercepted by the peer's middleware are reported as unhandled
+   */
+  public emitAsync<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): Promise<EmitResult<TEventMap>> {
+    if(event === Events.WILDCARD) {
+      return Promise.reject(new Error(`Do not emit "${event}" manually. Reserved for internal use.`));
+    }
+    const id = randomId();
+    const acked = new Promise<EmitResult<TEventMap>>((resolve, reject) => {
+      this.acks.set(id, {resolve: handled => resolve({handled, errors: [], intercepted: false}), reject});
+      this.send({type: 'emit', event, payload, id});
+    });
+    return this.ackTimeout === Infinity ? acked : timeout(acked, this.ackTimeout).catch(e => {
+      this.acks.delete(id);
+      throw e;
+    });
+  }
+
+  /**
+   * Events forwarded by [[Bus.emitCancelable]] on a bus piped to this one are sent to the peer.
+   * The peer's handlers cannot cancel them or stop their propagation
+   * @override
+   */
+  protected emitInContext<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], context: Events.EventContext): boolean {
+    return this.emit(event, payload);
+  }
+
+  /**
+   * @getter `boolean`
+   */
+  public get hasListeners(): boolean {
+    return super.hasListeners || this.remoteListeners.size > 0;
+  }
+
+  public hasListenersFor(event: Events.ListenerKey<EventKeys<TEventMap>>): boolean {
+    return super.hasListenersFor(event) || this.remoteListeners.has(event);
+  }
+
+  private hasRemoteListenersFor(event: EventKeys<TEventMap>): boolean {
+    return [event, ...matchingPatterns(event), Events.WILDCARD].some(key => this.remoteListeners.has(key as Events.ListenerKey<EventKeys<TEventMap>>));
+  }
+
+  private send(frame: RemoteBus.Frame): void {
+    this.connection.send(this.protocol.encode(frame));
+  }
+
+  /**
+   * Handle a frame from the peer. Errors raising its events locally are reported with [[Lifecycle.error]],
+   * rather than thrown to the connection
+   */
+  private receive(frame: RemoteBus.Frame): void {
+    const report = (error: any) => this.emitLifecycleEvent(Lifecycle.error, {error, event: 'event' in frame ? frame.event as EventKeys<TEventMap> : undefined});
+    try {
+      this.dispatchFrame(frame, report);
+    } catch(e) {
+      report(e);
+    }
+  }
+
+  private dispatchFrame(frame: RemoteBus.Frame, report: (error: any) => void): void {
+    switch(frame.type) {
+      case 'subscribe':
+        return this.relay(frame.event as Events.ListenerKey<EventKeys<TEventMap>>);
+      case 'unsubscribe':
+        return this.unrelay(frame.event as Events.ListenerKey<EventKeys<TEventMap>>);
+      case 'listening':
+        return this.setRemoteListening(frame.event as Events.ListenerKey<EventKeys<TEventMap>>, frame.listening);
+      case 'event':
+        super.emit(frame.event as EventKeys<TEventMap>, frame.payload);
+        return;
+      case 'emit':
+        this.raise(frame.event as EventKeys<TEventMap>, frame.payload, frame.id).catch(report);
+        return;
+      case 'ack':
+        this.acks.get(frame.id)?.resolve(frame.handled);
+        this.acks.delete(frame.id);
+        return;
+    }
+  }
+
+  /**
+   * Subscribe to or unsubscribe from an event on the peer as this bus gains its first or loses its last listener for it
+   */
+  private syncSubscription(event: Events.ListenerKey<EventKeys<TEventMap>>): void {
+    const listening = super.hasListenersFor(event);
+    if(listening && !this.subscribed.has(event)) {
+      this.subscribed.add(event);
+      this.send({type: 'subscribe', event});
+    } else if(!listening && this.subscribed.delete(event)) {
+      this.send({type: 'unsubscribe', event});
+    }
+  }
+
+  private setRemoteListening(event: Events.ListenerKey<EventKeys<TEventMap>>, listening: boolean): void {
+    if(listening && !this.remoteListeners.has(event)) {
+      this.willAddListener(event);
+      this.remoteListeners.add(event);
+      this.didAddListener(event);
+    } else if(!listening && this.remoteListeners.has(event)) {
+      this.willRemoveListener(event);
+      this.remoteListeners.delete(event);
+      this.didRemoveListener(event);
+    }
+  }
+
+  /**
+   * Forward events raised on the exposed bus to the peer.
+   * An event matching several of the peer's subscriptions is sent once, by the most specific subscription
+   */
+  private relay(event: Events.ListenerKey<EventKeys<TEventMap>>): void {
+    if(!this.exposed || this.relays.has(event)) {
+      return;
+    }
+    const send = (e: EventKeys<TEventMap>, payload: any) => {
+      const key = [e, ...matchingPatterns(e), Events.WILDCARD].find(k => this.relays.has(k as Events.ListenerKey<EventKeys<TEventMap>>));
+      if(key === event) {
+        this.send({type: 'event', event: e, payload});
+      }
+    };
+    const handler: EventHandlers.GenericHandler = event === Events.WILDCARD || isPattern(event)
+      ? send
+      : (payload: any) => send(event as EventKeys<TEventMap>, payload);
+    this.relays.set(event, {handler, sub: null});
+    this.relays.get(event).sub = this.exposed.on(event, handler as EventHandlers.EventHandler<TEventMap, typeof event>);
+  }
+
+  private unrelay(event: Events.ListenerKey<EventKeys<TEventMap>>): void {
+    const relay = this.relays.get(event);
+    if(relay) {
+      this.relays.delete(event);
+      relay.sub();
+    }
+  }
+
+  /**
+   * Raise an event emitted by the peer on the exposed bus, acknowledging it once its handlers settle when the peer requested an `ack`
+   */
+  private async raise<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], id?: string): Promise<void> {
+    if(!id) {
+      this.exposed?.emit(event, payload);
+      return;
+    }
+    let handled = false;
+    try {
+      handled = this.exposed ? (await this.exposed.emitAsync(event, payload)).handled : false;
+    } catch(e) {
+      // the exposed bus rejects unhandled events when `options.allowUnhandledEvents` is false, which is reported to the peer
+    }
+    this.send({type: 'ack', id, handled});
+  }
+
+  /**
+   * Tell the peer whether the exposed bus has listeners of its own for an event, not counting the peer's subscriptions
+   */
+  private announce(event: Events.ListenerKey<EventKeys<TEventMap>>): void {
+    const relay = this.relays.get(event);
+    const listening = Array.from(this.exposed.listeners.get(event) || []).some(handler => handler !== relay?.handler);
+    if(listening && !this.announced.has(event)) {
+      this.announced.add(event);
+      this.send({type: 'listening', event, listening});
+    } else if(!listening && this.announced.delete(event)) {
+      this.send({type: 'listening', event, listening});
+    }
+  }
+
+  private withdraw(): void {
+    this.announced.forEach(event => this.send({type: 'listening', event, listening: false}));
+    this.announced.clear();
+    this.relays.forEach(relay => relay.sub());
+    this.relays.clear();
+  }
+
+  private disconnect(): void {
+    this.withdraw();
+    this.teardown();
+    this.acks.forEach(({reject}) => reject(new Error(`${this.name} destroyed`)));
+    this.acks.clear();
+    this.remoteListeners.clear();
+  }
+}
+
+export namespace RemoteBus {
+
+  /**
+   * The messages exchanged by two [[RemoteBus]] peers.
+   * - `subscribe`/`unsubscribe` - the sender starts/stops listening for an event, [[Pattern]] or [[WILDCARD]] on the receiver's exposed bus
+   * - `listening` - the receiver's exposed bus gained or lost its own listeners for an event, [[Pattern]] or [[WILDCARD]]
+   * - `event` - an event the receiver subscribed to was raised on the sender's exposed bus
+   * - `emit` - raise an event on the receiver's exposed bus. When `id` is given, the receiver replies with an `ack`
+   * - `ack` - the event emitted with `id` was raised on the exposed bus, and whether it had any handlers
+   */
+  export type Frame =
+    {type: 'subscribe', event: Events.Event} |
+    {type: 'unsubscribe', event: Events.Event} |
+    {type: 'listening', event: Events.Event, listening: boolean} |
+    {type: 'event', event: Events.Event, payload: any} |
+    {type: 'emit', event: Events.Event, payload: any, id?: string} |
+    {type: 'ack', id: string, handled: boolean};
+
+  /**
+   * Converts [[Frame]]s to and from the data sent over a [[Connection]]
+   * @prop encode - serialize a frame
+   * @prop createDecoder - create a decoder for a single connection, which is given data as it arrives
+   * and returns the frames completed by it. Data may contain partial frames or several frames.
+   * Malformed frames are passed to `onError`, without losing the frames around them
+   */
+  export interface Protocol {
+    encode(frame: Frame): string;
+    createDecoder(onError: (error: any) => void): (data: string) => Frame[];
+  }
+
+  /**
+   * A duplex channel to a peer, such as a socket or WebSocket.
+   * See [[RemoteBus.fromStream]], [[RemoteBus.fromWebSocket]] and [[RemoteBus.createConnectionPair]]
+   */
+  export interface Connection {
+    send(data: string): void;
+    receive(listener: (data: string) => void): Events.Subscription;
+  }
+
+  /**
+   * A Node duplex stream, e.g. a `net.Socket`
+   */
+  export interface Stream {
+    write(data: string): any;
+    on(event: 'data', listener: (chunk: any) => void): any;
+    removeListener(event: 'data', listener: (chunk: any) => void): any;
+    setEncoding?(encoding: string): any;
+  }
+
+  /**
+   * A browser `WebSocket`, or a socket from the `ws` package
+   */
+  export interface WebSocket {
+    send(data: string): void;
+    addEventListener(type: 'message', listener: (event: {data: any}) => void): void;
+    removeEventListener(type: 'message', listener: (event: {data: any}) => void): void;
+  }
+
+  /**
+   * @prop expose - the local bus the peer may subscribe to and emit events on. Without it, the peer's subscriptions and events are ignored
+   * @prop protocol [default=[[RemoteBus.jsonProtocol]]] - how frames are encoded on the connection
+   * @prop ackTimeout [default=`Infinity`] - milliseconds [[RemoteBus.emitAsync]] waits for the peer to acknowledge an event before rejecting
+   */
+  export interface Options<TEventMap extends object> extends BusOptions<TEventMap> {
+    expose?: Bus<TEventMap, any>;
+    protocol?: Protocol;
+    ackTimeout?: number;
+  }
+
+  /**
+   * Each frame is a JSON object followed by a newline. The decoder reports each line that is not JSON
+   */
+  export const jsonProtocol: Protocol = {
+    encode: frame => `${JSON.stringify(frame)}\n`,
+    createDecoder: onError => {
+      let buffer = '';
+      return data => {
+        const lines = (buffer + data).split('\n');
+        buffer = lines.pop();
+        const frames: Frame[] = [];
+        lines.filter(line => line.trim()).forEach(line => {
+          try {
+            frames.push(JSON.parse(line));
+          } catch(e) {
+            onError(e);
+          }
+        });
+        return frames;
+      };
+    }
+  };
+
+  export function fromStream(stream: Stream): Connection {
+    stream.setEncoding?.('utf8');
+    return {
+      send: data => stream.write(data),
+      receive: listener => {
+        const onData = (chunk: any) => listener(String(chunk));
+        stream.on('data', onData);
+        return generateSubscription(() => stream.removeListener('data', onData));
+      }
+    };
+  }
+
+  export function fromWebSocket(socket: WebSocket): Connection {
+    return {
+      send: data => socket.send(data),
+      receive: listener => {
+        const onMessage = (e: {data: any}) => listener(String(e.data));
+        socket.addEventListener('message', onMessage);
+        return generateSubscription(() => socket.removeEventListener('message', onMessage));
+      }
+    };
+  }
+
+  /**
+   * Two in-memory connections to each other. Data is delivered asynchronously, in order
+   */
+  export function createConnectionPair(): [Connection, Connection] {
+    const listeners: [Set<(data: string) => void>, Set<(data: string) => void>] = [new Set(), new Set()];
+    const connect = (own: number): Connection => ({
+      send: data => {
+        Promise.resolve().then(() => listeners[1 - own].forEach(listener => listener(data)));
+      },
+      receive: listener => {
+        listeners[own].add(listener);
+        return generateSubscription(() => listeners[own].delete(listener));
+      }
+    });
+    return [connect(0), connect(1)];
+  }
+}
@@ -0,0 +1,359 @@
+import {sleep} from 'jaasync/lib/cancelable';
+import {TimeoutExpiredError} from 'jaasync/lib/timeout';
+import * as net from 'net';
+
+import {RemoteBus} from './remoteBus';
+import {Bus} from './strongbus';
+import {Lifecycle} from './types/lifecycle';
+import {generateSubscription} from './utils/generateSubscription';
+
+type TestEventMap = {
+  'user.created': string;
+  'user.deleted': string;
+  foo: number;
+  bar: number;
+};
+
+async function delivery(): Promise<void> {
+  await sleep(10);
+}
+
+/**
+ * A connection that drops what is sent on it, and receives what is pushed to it
+ */
+function createManualConnection(): RemoteBus.Connection & {push(data: string): void} {
+  const listeners = new Set<(data: string) => void>();
+  return {
+    send: () => undefined,
+    receive: listener => {
+      listeners.add(listener);
+      return generateSubscription(() => listeners.delete(listener));
+    },
+    push: data => listeners.forEach(listener => listener(data))
+  };
+}
+
+
+describe('RemoteBus', () => {
+  let server: Bus<TestEventMap>;
+  let client: Bus<TestEventMap>;
+  let toServer: RemoteBus<TestEventMap>;
+  let toClient: RemoteBus<TestEventMap>;
+  let onFoo: jasmine.Spy;
+  let onBar: jasmine.Spy;
+
+  beforeEach(() => {
+    server = new Bus<TestEventMap>({name: 'server'});
+    client = new Bus<TestEventMap>({name: 'client'});
+    const [clientConnection, serverConnection] = RemoteBus.createConnectionPair();
+    toServer = new RemoteBus<TestEventMap>(clientConnection, {name: 'toServer', expose: client});
+    toClient = new RemoteBus<TestEventMap>(serverConnection, {name: 'toClient', expose: server});
+    onFoo = jasmine.createSpy('onFoo');
+    onBar = jasmine.createSpy('onBar');
+  });
+
+  afterEach(() => {
+    toServer.destroy();
+    toClient.destroy();
+  });
+
+  describe('subscribing', () => {
+    it('receives events raised on the peer\'s exposed bus', async () => {
+      toServer.on('foo', onFoo);
+      await delivery();
+
+      server.emit('foo', 1);
+      await delivery();
+
+      expect(onFoo).toHaveBeenCalledWith(1);
+    });
+
+    it('only receives events it has subscribed to', async () => {
+      const send = spyOn(toClient as any, 'send').and.callThrough();
+      toServer.on('foo', onFoo);
+      await delivery();
+
+      server.emit('bar', 1);
+      await delivery();
+
+      expect(send).not.toHaveBeenCalledWith(jasmine.objectContaining({type: 'event', event: 'bar'}));
+    });
+
+    it('stops receiving events once unsubscribed', async () => {
+      const sub = toServer.on('foo', onFoo);
+      await delivery();
+      sub();
+      await delivery();
+
+      expect(server.hasListenersFor('foo')).toBeFalse();
+      server.emit('foo', 1);
+      await delivery();
+
+      expect(onFoo).not.toHaveBeenCalled();
+    });
+
+    it('receives each event once when several subscriptions match it', async () => {
+      const onUser = jasmine.createSpy('onUser');
+      const onAny = jasmine.createSpy('onAny');
+      const onCreated = jasmine.createSpy('onCreated');
+      toServer.on('user.*', onUser);
+      toServer.on('*', onAny);
+      toServer.on('user.created', onCreated);
+      await delivery();
+
+      server.emit('user.created', 'alice');
+      await delivery();
+
+      expect(onCreated).toHaveBeenCalledTimes(1);
+      expect(onUser).toHaveBeenCalledTimes(1);
+      expect(onUser).toHaveBeenCalledWith('user.created', 'alice');
+      expect(onAny).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('#emit', () => {
+    it('raises the event on the peer\'s exposed bus', async () => {
+      server.on('foo', onFoo);
+      await delivery();
+
+      expect(toClient.emit('foo', 1)).toBeFalse();
+      expect(toServer.emit('foo', 2)).toBeTrue();
+      await delivery();
+
+      expect(onFoo).toHaveBeenCalledTimes(1);
+      expect(onFoo).toHaveBeenCalledWith(2);
+    });
+
+    it('does not send events the peer has no listeners for', async () => {
+      const send = spyOn(toServer as any, 'send').and.callThrough();
+
+      expect(toServer.emit('foo', 1)).toBeFalse();
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('forwards events raised with emitCancelable on buses piped into it', async () => {
+      client.pipe(toServer);
+      server.on('foo', onFoo);
+      await delivery();
+
+      client.emitCancelable('foo', 1);
+      await delivery();
+
+      expect(onFoo).toHaveBeenCalledWith(1);
+    });
+
+    it('does not report the peer\'s subscriptions as listeners', async () => {
+      toServer.on('foo', onFoo);
+      await delivery();
+
+      expect(server.hasListenersFor('foo')).toBeTrue();
+      expect(toClient.hasListenersFor('foo')).toBeFalse();
+    });
+  });
+
+  describe('#emitAsync', () => {
+    it('resolves when the peer acknowledges the event', async () => {
+      server.on('foo', async (n) => {
+        await sleep(5);
+        onFoo(n);
+      });
+
+      const result = await toServer.emitAsync('foo', 1);
+      expect(result).toEqual({handled: true, errors: [], intercepted: false});
+      expect(onFoo).toHaveBeenCalledWith(1);
+    });
+
+    it('resolves unhandled when the peer has no listeners', async () => {
+      const result = await toServer.emitAsync('bar', 1);
+      expect(result.handled).toBeFalse();
+    });
+
+    it('rejects pending acknowledgements when destroyed', async () => {
+      const pending = toServer.emitAsync('foo', 1);
+      toServer.destroy();
+      await expectAsync(pending).toBeRejectedWithError('toServer RemoteBus destroyed');
+    });
+
+    it('rejects when the peer does not acknowledge the event within options.ackTimeout', async () => {
+      const remote = new RemoteBus<TestEventMap>(createManualConnection(), {ackTimeout: 10});
+
+      await expectAsync(remote.emitAsync('foo', 1)).toBeRejectedWithError(TimeoutExpiredError);
+      expect((remote as any).acks.size).toBe(0);
+      remote.destroy();
+    });
+  });
+
+  describe('receiving', () => {
+    let onError: jasmine.Spy;
+
+    beforeEach(() => {
+      onError = jasmine.createSpy('onError');
+    });
+
+
+    it('reports malformed frames as errors', () => {
+      const connection = createManualConnection();
+      const remote = new RemoteBus<TestEventMap>(connection);
+      remote.hook(Lifecycle.error, onError);
+
+      connection.push('not json\n');
+
+      expect(onError).toHaveBeenCalledWith({error: jasmine.any(SyntaxError), event: undefined});
+      remote.destroy();
+    });
+
+    it('receives the frames around a malformed frame', () => {
+      const connection = createManualConnection();
+      const remote = new RemoteBus<TestEventMap>(connection);
+      remote.hook(Lifecycle.error, onError);
+      remote.on('foo', onFoo);
+
+      connection.push(`not json\n${RemoteBus.jsonProtocol.encode({type: 'event', event: 'foo', payload: 1})}`);
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onFoo).toHaveBeenCalledWith(1);
+      remote.destroy();
+    });
+
+    it('reports errors raising events the peer emits on the exposed bus', async () => {
+      const exposed = new Bus<TestEventMap>({errorPolicy: 'throw'});
+      exposed.on('foo', () => {
+        throw new Error('rejected');
+      });
+      const [a, b] = RemoteBus.createConnectionPair();
+      const remote = new RemoteBus<TestEventMap>(a);
+      const exposing = new RemoteBus<TestEventMap>(b, {expose: exposed});
+      exposing.hook(Lifecycle.error, onError);
+      await delivery();
+
+      expect(remote.emit('foo', 1)).toBeTrue();
+      await delivery();
+
+      expect(onError).toHaveBeenCalledWith({error: new Error('rejected'), event: 'foo'});
+      remote.destroy();
+      exposing.destroy();
+    });
+
+    it('reports errors raising events received from the peer, rather than throwing them to the connection', () => {
+      const connection = createManualConnection();
+      const remote = new RemoteBus<TestEventMap>(connection, {errorPolicy: 'throw'});
+      remote.hook(Lifecycle.error, onError);
+      remote.on('foo', () => {
+        throw new Error('failed');
+      });
+
+      expect(() => connection.push(RemoteBus.jsonProtocol.encode({type: 'event', event: 'foo', payload: 1}))).not.toThrow();
+      expect(onError).toHaveBeenCalledWith({error: new Error('failed'), event: 'foo'});
+      remote.destroy();
+    });
+  });
+
+  describe('listener information', () => {
+    it('reflects the peer\'s listeners', async () => {
+      expect(toServer.hasListenersFor('foo')).toBeFalse();
+      expect(toServer.hasListeners).toBeFalse();
+
+      const sub = server.on('foo', onFoo);
+      await delivery();
+      expect(toServer.hasListenersFor('foo')).toBeTrue();
+      expect(toServer.hasListeners).toBeTrue();
+
+      sub();
+      await delivery();
+      expect(toServer.hasListenersFor('foo')).toBeFalse();
+    });
+
+    it('includes listeners added before connecting', async () => {
+      const bus = new Bus<TestEventMap>();
+      bus.on('bar', onBar);
+      const [a, b] = RemoteBus.createConnectionPair();
+      const remote = new RemoteBus<TestEventMap>(a);
+      const exposing = new RemoteBus<TestEventMap>(b, {expose: bus});
+      await delivery();
+
+      expect(remote.hasListenersFor('bar')).toBeTrue();
+      remote.destroy();
+      exposing.destroy();
+    });
+
+    it('activates buses piped into it when the peer gains listeners', async () => {
+      client.pipe(toServer);
+      const onActive = jasmine.createSpy('onActive');
+      client.monitor(onActive);
+
+      server.on('foo', onFoo);
+      await delivery();
+
+      expect(client.hasListenersFor('foo')).toBeTrue();
+      expect(onActive).toHaveBeenCalledWith(true);
+
+      client.emit('foo', 1);
+      await delivery();
+      expect(onFoo).toHaveBeenCalledWith(1);
+    });
+
+    it('tells the peer it has no listeners when destroyed', async () => {
+      server.on('foo', onFoo);
+      await delivery();
+
+      toClient.destroy();
+      await delivery();
+
+      expect(toServer.hasListenersFor('foo')).toBeFalse();
+    });
+  });
+
+  describe('.jsonProtocol', () => {
+    it('decodes frames split across and combined in chunks', () => {
+      const decode = RemoteBus.jsonProtocol.createDecoder(fail);
+      const data = RemoteBus.jsonProtocol.encode({type: 'subscribe', event: 'foo'})
+        + RemoteBus.jsonProtocol.encode({type: 'event', event: 'foo', payload: 'line\nbreak'});
+
+      expect(decode(data.slice(0, 10))).toEqual([]);
+      expect(decode(data.slice(10))).toEqual([
+        {type: 'subscribe', event: 'foo'},
+        {type: 'event', event: 'foo', payload: 'line\nbreak'}
+      ]);
+    });
+
+    it('reports each line that is not JSON, and decodes the frames around it', () => {
+      const onError = jasmine.createSpy('onError');
+      const decode = RemoteBus.jsonProtocol.createDecoder(onError);
+      const ack = {type: 'ack', id: '1', handled: true} as const;
+      const event = {type: 'event', event: 'foo', payload: 1} as const;
+
+      expect(decode(`${RemoteBus.jsonProtocol.encode(ack)}not json\n{\n${RemoteBus.jsonProtocol.encode(event)}`)).toEqual([ack, event]);
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenCalledWith(jasmine.any(SyntaxError));
+    });
+  });
+
+  describe('.fromStream', () => {
+    it('connects over a socket', async () => {
+      const sockets: net.Socket[] = [];
+      const listening = net.createServer(accepted => {
+        sockets.push(accepted);
+        toClient.destroy();
+        toClient = new RemoteBus<TestEventMap>(RemoteBus.fromStream(accepted), {expose: server});
+      });
+      await new Promise<void>(resolve => listening.listen(0, '127.0.0.1', resolve));
+      const socket = net.connect((listening.address() as net.AddressInfo).port, '127.0.0.1');
+      sockets.push(socket);
+      await new Promise<void>(resolve => socket.on('connect', resolve));
+      toServer.destroy();
+      toServer = new RemoteBus<TestEventMap>(RemoteBus.fromStream(socket), {expose: client});
+
+      try {
+        toServer.on('foo', onFoo);
+        await delivery();
+        server.emit('foo', 1);
+        await delivery();
+
+        expect(onFoo).toHaveBeenCalledWith(1);
+      } finally {
+        sockets.forEach(s => s.destroy());
+        await new Promise(resolve => listening.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import {autobind} from 'core-decorators';
+import {sleep} from 'jaasync/lib/cancelable';
+
+import {Bus} from './strongbus';
+import {Recording} from './types/recording';
+
+
+export namespace Replayer {
+  /**
+   * @prop buses - buses to replay events into, by recorded name. A new [[Bus]] is created for every other recorded bus,
+   * named as the recorded bus was
+   */
+  export interface Options {
+    buses?: {[name: string]: Bus<any, any>};
+  }
+
+  /**
+   * @prop timing [default=`"compressed"`]
+   * - `original` wait between events as long as elapsed between them when they were recorded
+   * - `compressed` raise events one after another without waiting
+   */
+  export interface ReplayOptions {
+    timing?: 'original'|'compressed';
+  }
+}
+
+/**
+ * Re-emits the events of a [[Recording]], e.g. to reproduce a bug report's event log in a test.
+ * The buses are piped together as they were when recorded. Events that were forwarded through a pipe are
+ * not raised again, as the pipe forwards them
+ */
+@autobind
+export class Replayer {
+  /**
+   * The buses events are replayed into, by recorded name
+   */
+  public readonly buses: {[name: string]: Bus<any, any>} = {};
+  private readonly recording: Recording;
+
+  /**
+   * @param recording - a [[Recording]], or its JSON
+   */
+  constructor(recording: Recording|string, options: Replayer.Options = {}) {
+    this.recording = typeof recording === 'string' ? JSON.parse(recording) : recording;
+    if(this.recording.version !== 1) {
+      throw new Error(`Unsupported recording version ${this.recording.version}`);
+    }
+    this.recording.buses.forEach(({name}) => {
+      this.buses[name] = options.buses?.[name] || new Bus({name: optionName(name)});
+    });
+    this.recording.buses.forEach(({name, delegates}) => {
+      delegates.forEach(d => this.buses[name].pipe(this.buses[d]));
+    });
+  }
+
+  /**
+   * Raise the recorded events in order. Resolves once the last event has been raised
+   */
+  public async replay(options: Replayer.ReplayOptions = {}): Promise<void> {
+    const {timing = 'compressed'} = options;
+    const piped = new Set<string>();
+    this.recording.buses.forEach(({delegates}) => delegates.forEach(d => piped.add(d)));
+
+    let previous: number;
+    for(const {bus, event, payload, timestamp, forwarded} of this.recording.events) {
+      if(forwarded && piped.has(bus)) {
+        continue;
+      }
+      if(timing === 'original' && previous !== undefined) {
+        await sleep(timestamp - previous);
+      }
+      previous = timestamp;
+      this.buses[bus].emit(event, payload);
+    }
+  }
+}
+
+/**
+ * The `options.name` of a recorded bus, whose name is suffixed with the name of its class, e.g. `"App"` for `"App Bus"`
+ * @ignore
+ */
+function optionName(name: string): string {
+  const i = name.lastIndexOf(' ');
+  return i > 0 ? name.substring(0, i) : name;
+}
@@ -0,0 +1,106 @@
+import {Recorder} from './recorder';
+import {Replayer} from './replayer';
+import {Bus} from './strongbus';
+import {Recording} from './types/recording';
+
+type TestEventMap = {
+  foo: string;
+  bar: number;
+};
+
+
+describe('Replayer', () => {
+  let recording: Recording;
+  let onFoo: jasmine.Spy;
+  let onBar: jasmine.Spy;
+
+  beforeEach(() => {
+    recording = {
+      version: 1,
+      buses: [
+        {name: 'App Bus', delegates: ['Feature Bus']},
+        {name: 'Feature Bus', delegates: []}
+      ],
+      events: [
+        {bus: 'App Bus', event: 'foo', payload: 'one', timestamp: 1000, handled: true, forwarded: false},
+        {bus: 'Feature Bus', event: 'foo', payload: 'one', timestamp: 1000, handled: true, forwarded: true},
+        {bus: 'Feature Bus', event: 'bar', payload: 2, timestamp: 1030, handled: false, forwarded: false}
+      ]
+    };
+    onFoo = jasmine.createSpy('onFoo');
+    onBar = jasmine.createSpy('onBar');
+  });
+
+  it('replays events into new buses piped as they were recorded', async () => {
+    const replayer = new Replayer(JSON.stringify(recording));
+    replayer.buses['Feature Bus'].on('foo', onFoo);
+    replayer.buses['Feature Bus'].on('bar', onBar);
+
+    await replayer.replay();
+
+    expect(onFoo.calls.allArgs()).toEqual([['one']]);
+    expect(onBar.calls.allArgs()).toEqual([[2]]);
+  });
+
+  it('names new buses as they were recorded', () => {
+    const replayer = new Replayer(recording);
+    expect(replayer.buses['App Bus'].name).toBe('App Bus');
+    expect(replayer.buses['Feature Bus'].name).toBe('Feature Bus');
+  });
+
+  it('replays into the buses provided', async () => {
+    const app = new Bus<TestEventMap>({name: 'App'});
+    app.on('foo', onFoo);
+
+    await new Replayer(recording, {buses: {'App Bus': app}}).replay();
+
+    expect(onFoo.calls.allArgs()).toEqual([['one']]);
+  });
+
+  it('raises forwarded events whose piping bus was not recorded', async () => {
+    recording.buses = [{name: 'Feature Bus', delegates: []}];
+    recording.events = recording.events.filter(e => e.bus === 'Feature Bus');
+    const replayer = new Replayer(recording);
+    replayer.buses['Feature Bus'].on('foo', onFoo);
+
+    await replayer.replay();
+
+    expect(onFoo.calls.allArgs()).toEqual([['one']]);
+  });
+
+  it('replays with the original timing', async () => {
+    const replayer = new Replayer(recording);
+    replayer.buses['Feature Bus'].on('bar', onBar);
+
+    const replayed = replayer.replay({timing: 'original'});
+    expect(onBar).not.toHaveBeenCalled();
+    await replayed;
+    expect(onBar).toHaveBeenCalled();
+  });
+
+  it('replays with compressed timing by default', () => {
+    const replayer = new Replayer(recording);
+    replayer.buses['Feature Bus'].on('bar', onBar);
+
+    replayer.replay();
+    expect(onBar).toHaveBeenCalled();
+  });
+
+  it('rejects unsupported recordings', () => {
+    expect(() => new Replayer({...recording, version: 2} as any)).toThrowError('Unsupported recording version 2');
+  });
+
+  it('reproduces events captured by a Recorder', async () => {
+    const app = new Bus<TestEventMap>({name: 'App'});
+    const feature = app.pipe(new Bus<TestEventMap>({name: 'Feature'}));
+    feature.on('foo', payload => feature.emit('bar', payload.length));
+    const recorder = new Recorder(app);
+    app.emit('foo', 'hello');
+
+    const replayer = new Replayer(JSON.stringify(recorder));
+    replayer.buses['Feature Bus'].on('bar', onBar);
+    await replayer.replay();
+
+    expect(onBar.calls.allArgs()).toEqual([[5]]);
+  });
+});
@@ -0,0 +1,216 @@
+import {CancelablePromise, retry} from 'jaasync/lib/cancelable';
+
+import {Bus} from './strongbus';
+import * as Events from './types/events';
+import {Lifecycle} from './types/lifecycle';
+import {EventKeys} from './types/utility';
+import {generateSubscription} from './utils/generateSubscription';
+import {isPromiseLike} from './utils/isPromiseLike';
+import {over} from './utils/over';
+import {isPattern} from './utils/patterns';
+
+
+export namespace runSaga {
+
+  /**
+   * What a saga yields to wait for an event, raise an event, or race other effects.
+   * Delegating to an effect with `yield*` evaluates to its typed result, whereas `yield` evaluates to `any`
+   * @typeParam R - the result the saga is resumed with
+   */
+  export interface Effect<R> {
+    readonly instruction: Instruction;
+    [Symbol.iterator](): Generator<Effect<R>, R, any>;
+  }
+
+  export type Instruction =
+    {type: 'take', event: Events.Listenable<Events.Event>}
+    |{type: 'put', event: Events.Event, payload: any}
+    |{type: 'race', effects: Record<string, Effect<any>>};
+
+  export type ResultOf<E> = E extends Effect<infer R> ? R : never;
+
+  /**
+   * Effects typed by the event map of the saga's bus
+   * @prop take - resume with the payload of the next of the events raised on the bus, or `undefined` when taking several events
+   * @prop put - raise an event on the bus, resuming with whether it was handled, or throwing into the saga what raising it threw
+   * @prop race - resume as soon as one of the effects settles, with its result keyed as it was given. The other effects are canceled
+   */
+  export interface Effects<TEventMap extends object> {
+    take<T extends Events.Listenable<EventKeys<TEventMap>>>(event: T): Effect<T extends EventKeys<TEventMap> ? TEventMap[T] : void>;
+    put<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): Effect<boolean>;
+    race<E extends Record<string, Effect<any>>>(effects: E): Effect<{[K in keyof E]?: ResultOf<E[K]>}>;
+  }
+
+  export type Saga<TEventMap extends object, R> = (effects: Effects<TEventMap>) => Generator<unknown, R, any>;
+}
+
+class SagaEffect<R> implements runSaga.Effect<R> {
+  public readonly instruction: runSaga.Instruction;
+
+  constructor(instruction: runSaga.Instruction) {
+    this.instruction = instruction;
+  }
+
+  public *[Symbol.iterator](): Generator<runSaga.Effect<R>, R, any> {
+    return yield this;
+  }
+}
+
+const effects: runSaga.Effects<any> = {
+  take: event => new SagaEffect({type: 'take', event}),
+  put: (event, payload) => new SagaEffect({type: 'put', event, payload}),
+  race: raced => new SagaEffect({type: 'race', effects: raced})
+};
+
+/**
+ * Run a generator over the events of `bus`, resuming it with the result of each effect it yields.
+ * The saga is resumed synchronously when an effect settles, so it takes events raised back to back, e.g. by the same handler.
+ * Promises it yields are awaited, and canceled with the saga if they are cancelable. Errors are thrown into the generator at the `yield`.
+ * Canceling the promise cancels the pending effect, unsubscribing from the bus, and returns from the generator so that its `finally` blocks run
+ * @returns a promise resolved with what the saga returns, or rejected with what it throws
+ */
+export function runSaga<TEventMap extends object, R>(bus: Bus<TEventMap, any>, saga: runSaga.Saga<TEventMap, R>): CancelablePromise<R> {
+  const iterator = saga(effects);
+  // stops the effect the saga is waiting on
+  let stop: Events.Subscription|undefined;
+
+  const p = new CancelablePromise<R>(({state}) => new Promise<R>((resolve, reject) => {
+    const resume = (failed: boolean, value: any): void => {
+      while(state() !== retry.State.Canceled) {
+        let step: IteratorResult<unknown, R>;
+        try {
+          step = failed ? iterator.throw(value) : iterator.next(value);
+        } catch(e) {
+          reject(e);
+          return;
+        }
+        if(step.done) {
+          resolve(step.value);
+          return;
+        }
+        // effects that settle as they start, like put, continue this loop rather than resuming recursively
+        let starting = true;
+        let settled: {failed: boolean, value: any}|undefined;
+        stop = start(bus, step.value, (f, v) => {
+          stop = undefined;
+          if(starting) {
+            settled = {failed: f, value: v};
+          } else {
+            resume(f, v);
+          }
+        });
+        starting = false;
+        if(!settled) {
+          return;
+        }
+        ({failed, value} = settled);
+      }
+    };
+    resume(false, undefined);
+  }));
+
+  // handle cancelation
+  p.catch(() => null).finally(() => {
+    stop?.();
+    iterator.return(undefined);
+  });
+
+  return p;
+}
+
+type Settle = (failed: boolean, value: any) => void;
+
+/**
+ * @ignore
+ * Start a yielded value, calling `settle` once with its result or error
+ * @returns a subscription that stops waiting for the value
+ */
+function start(bus: Bus<any, any>, yielded: unknown, settle: Settle): Events.Subscription {
+  if(yielded instanceof SagaEffect) {
+    const {instruction} = yielded;
+    switch(instruction.type) {
+      case 'take':
+        return take(bus, instruction.event, settle);
+      case 'put':
+        return put(bus, instruction.event, instruction.payload, settle);
+      case 'race':
+        return race(bus, instruction.effects, settle);
+    }
+  } else if(isPromiseLike(yielded)) {
+    let stopped = false;
+    yielded.then(result => !stopped && settle(false, result), e => !stopped && settle(true, e));
+    return generateSubscription(() => {
+      stopped = true;
+      (yielded as Partial<CancelablePromise<unknown>>).cancel?.();
+    });
+  }
+  settle(true, new Error(`Sagas may only yield effects and promises, but yielded ${yielded}`));
+  return generateSubscription(() => undefined);
+}
+
+/**
+ * Settle from the handler of the next of the events, so the saga resumes while the event is being raised
+ */
+function take(bus: Bus<any, any>, event: Events.Listenable<Events.Event>, settle: Settle): Events.Subscription {
+  const single = !(event === Events.WILDCARD || Array.isArray(event) || isPattern(event));
+  const subs: Events.Subscription[] = [];
+  let settled = false;
+  const stop = () => {
+    settled = true;
+    over(subs)();
+  };
+  const done = (failed: boolean, value: any) => {
+    if(!settled) {
+      stop();
+      settle(failed, value);
+    }
+  };
+  subs.push(
+    bus.on(event, (...args: any[]) => done(false, single ? args[0] : undefined)),
+    bus.hook(Lifecycle.willDestroy, () => done(true, `${bus.name} destroyed`))
+  );
+  // a sticky payload may be delivered while subscribing
+  if(settled) {
+    stop();
+  }
+  return generateSubscription(stop);
+}
+
+/**
+ * Settle with whether the event was handled, or with what raising it threw,
+ * e.g. a handler's error under the `"throw"` [[ErrorPolicy]], or an unhandled event when `allowUnhandledEvents` is false
+ */
+function put(bus: Bus<any, any>, event: Events.Event, payload: any, settle: Settle): Events.Subscription {
+  let handled: boolean;
+  try {
+    handled = bus.emit(event, payload);
+  } catch(e) {
+    settle(true, e);
+    return generateSubscription(() => undefined);
+  }
+  settle(false, handled);
+  return generateSubscription(() => undefined);
+}
+
+function race(bus: Bus<any, any>, raced: Record<string, runSaga.Effect<any>>, settle: Settle): Events.Subscription {
+  const stops: Events.Subscription[] = [];
+  let settled = false;
+  const stop = () => {
+    settled = true;
+    over(stops)();
+  };
+  for(const key of Object.keys(raced)) {
+    stops.push(start(bus, raced[key], (failed, value) => {
+      if(!settled) {
+        stop();
+        settle(failed, failed ? value : {[key]: value});
+      }
+    }));
+    // an effect settled as it started, so the rest are not started
+    if(settled) {
+      stop();
+      break;
+    }
+  }
+  return generateSubscription(stop);
+}
@@ -0,0 +1,177 @@
+import {sleep} from 'jaasync/lib/cancelable';
+
+import {runSaga} from './saga';
+import {Bus} from './strongbus';
+
+type TestEventMap = {
+  login: {id: number};
+  fetchProfile: number;
+  profile: {name: string};
+  error: Error;
+};
+
+
+describe('runSaga', () => {
+  let bus: Bus<TestEventMap>;
+  let onFetchProfile: jasmine.Spy;
+
+  beforeEach(() => {
+    bus = new Bus<TestEventMap>();
+    onFetchProfile = jasmine.createSpy('onFetchProfile');
+    bus.on('fetchProfile', onFetchProfile);
+  });
+
+  function login(): Promise<{ok?: {name: string}, fail?: Error}> {
+    return runSaga(bus, function* ({take, put, race}) {
+      const {id} = yield* take('login');
+      yield* put('fetchProfile', id);
+      return yield* race({ok: take('profile'), fail: take('error')});
+    });
+  }
+
+  it('resumes the saga with the results of the effects it yields', async () => {
+    const saga = login();
+    bus.emit('login', {id: 1});
+    expect(onFetchProfile.calls.allArgs()).toEqual([[1]]);
+
+    bus.emit('profile', {name: 'alice'});
+
+    await expectAsync(saga).toBeResolvedTo({ok: {name: 'alice'}});
+  });
+
+  it('cancels the effects that lose a race', async () => {
+    const saga = login();
+    bus.emit('login', {id: 1});
+    const error = new Error('not found');
+    bus.emit('error', error);
+
+    await expectAsync(saga).toBeResolvedTo({fail: error});
+    expect(bus.hasListenersFor('profile')).toBeFalse();
+  });
+
+  it('takes events raised back to back', async () => {
+    const saga = runSaga(bus, function* ({take}) {
+      const {id} = yield* take('login');
+      const {name} = yield* take('profile');
+      return `${id} ${name}`;
+    });
+    bus.emit('login', {id: 1});
+    bus.emit('profile', {name: 'alice'});
+
+    await expectAsync(saga).toBeResolvedTo('1 alice');
+  });
+
+  it('takes events raised by the handlers of the events it takes', async () => {
+    const saga = runSaga(bus, function* ({take}) {
+      yield* take('login');
+      return yield* take('fetchProfile');
+    });
+    bus.on('login', ({id}) => bus.emit('fetchProfile', id));
+    bus.emit('login', {id: 1});
+
+    await expectAsync(saga).toBeResolvedTo(1);
+  });
+
+  describe('put', () => {
+    it('resumes the saga with whether the event was handled', async () => {
+      const saga = runSaga(bus, function* ({put}) {
+        return [yield* put('fetchProfile', 1), yield* put('profile', {name: 'alice'})];
+      });
+
+      await expectAsync(saga).toBeResolvedTo([true, false]);
+    });
+
+    it('throws what raising the event threw into the saga', async () => {
+      bus = new Bus<TestEventMap>({errorPolicy: 'throw'});
+      bus.on('fetchProfile', () => {
+        throw new Error('offline');
+      });
+      const saga = runSaga(bus, function* ({put}) {
+        try {
+          yield* put('fetchProfile', 1);
+        } catch(e) {
+          return `caught ${e.message}`;
+        }
+      });
+
+      await expectAsync(saga).toBeResolvedTo('caught offline');
+    });
+  });
+
+  it('awaits the promises it yields', async () => {
+    const saga = runSaga(bus, function* () {
+      const result: number = yield Promise.resolve(1);
+      return result + 1;
+    });
+
+    await expectAsync(saga).toBeResolvedTo(2);
+  });
+
+  it('throws errors into the saga', async () => {
+    const saga = runSaga(bus, function* ({take}) {
+      try {
+        yield* take('login');
+      } catch(e) {
+        return `caught ${e}`;
+      }
+    });
+    bus.destroy();
+
+    await expectAsync(saga).toBeResolvedTo('caught Anonymous Bus destroyed');
+  });
+
+  it('rejects with what the saga throws', async () => {
+    const saga = runSaga(bus, function* ({take}) {
+      yield* take('login');
+      throw new Error('oops');
+    });
+    bus.emit('login', {id: 1});
+
+    await expectAsync(saga).toBeRejectedWithError('oops');
+  });
+
+  it('rejects values that are neither effects nor promises', async () => {
+    const saga = runSaga(bus, function* () {
+      yield 'login';
+    });
+
+    await expectAsync(saga).toBeRejectedWithError('Sagas may only yield effects and promises, but yielded login');
+  });
+
+  describe('given the saga is canceled', () => {
+    it('unsubscribes from the bus and returns from the saga', async () => {
+      const onFinally = jasmine.createSpy('onFinally');
+      const saga = runSaga(bus, function* ({take, race}) {
+        try {
+          yield* race({login: take('login'), error: take('error')});
+        } finally {
+          onFinally();
+        }
+      });
+      expect(bus.hasListenersFor('login')).toBeTrue();
+
+      saga.cancel();
+      await expectAsync(saga).toBeRejectedWith('Canceled');
+      await sleep(1);
+
+      expect(bus.hasListenersFor('login')).toBeFalse();
+      expect(bus.hasListenersFor('error')).toBeFalse();
+      expect(onFinally).toHaveBeenCalled();
+    });
+
+    it('does not resume the saga', async () => {
+      const onLogin = jasmine.createSpy('onLogin');
+      const saga = runSaga(bus, function* ({take}) {
+        yield* take('login');
+        onLogin();
+      });
+      saga.catch(() => undefined);
+
+      saga.cancel();
+      bus.emit('login', {id: 1});
+      await sleep(1);
+
+      expect(onLogin).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,11 +1,15 @@
 import {autobind} from 'core-decorators';
-import {CancelablePromise} from 'jaasync/lib/cancelable';
+import {CancelablePromise, sleep} from 'jaasync/lib/cancelable';
 import {Deferred} from 'jaasync/lib/deferred';
+import {TimeoutExpiredError} from 'jaasync/lib/timeout';
 
+import {activeSpanContext, noopTracer, withSpanContext} from './tracing';
 import * as Events from './types/events';
 import {Lifecycle} from './types/lifecycle';
 import {Scannable} from './types/scannable';
+import {Tracer} from './types/tracing';
 import {EventKeys} from './types/utility';
+import {isPromiseLike} from './utils/isPromiseLike';
 import {over} from './utils/over';
 
 
@@ -14,10 +18,29 @@ export namespace Scanner {
   export type Resolver<R> = (result: R) => void;
   export type Rejecter = (err?: Error) => void;
   export type Evaluator<R> = (resolve: (result: R) => void, reject: (err?: Error) => void) => void|Promise<void>;
+  export type ResultOf<P> = P extends PromiseLike<infer R> ? R : never;
 
+  /**
+   * How an evaluation triggered while an async evaluation is pending is run:
+   * `skip` drops it, `queue` runs it after the pending evaluations, and `latest` runs one evaluation after the pending ones
+   */
+  export type Concurrency = 'skip'|'queue'|'latest';
+
+  /**
+   * @prop tracer [default=`noopTracer`] - opens a span for each evaluation, as a child of the span that triggered it
+   * @prop debounce - evaluate once triggers have stopped for this many milliseconds, rather than on each trigger
+   * @prop throttle - evaluate at most once every this many milliseconds, evaluating after the interval when triggered within it
+   * @prop concurrency - what to do with evaluations triggered while an async evaluation is pending. By default they overlap
+   * @prop onProgress - called with the evaluation's number after each evaluation that neither resolves nor rejects the Scanner
+   */
   export interface Params<R> {
     evaluator: Evaluator<R>;
     eager?: boolean;
+    tracer?: Tracer;
+    debounce?: number;
+    throttle?: number;
+    concurrency?: Concurrency;
+    onProgress?: (evaluation: number) => void;
   }
 }
 
@@ -28,28 +51,270 @@ export namespace Scanner {
 @autobind
 export class Scanner<T> implements CancelablePromise<T> {
   private settled: boolean = false;
+  private resolved: boolean = false;
+  private canceled: boolean = false;
   private readonly triggerListeners = new Set<Events.Subscription>();
   private readonly willDestroyListeners = new Set<Events.Subscription>();
   private readonly evaluator!: Scanner.Evaluator<T>;
+  private readonly tracer: Tracer;
+  private readonly params: Scanner.Params<T>;
+  private evaluations: number = 0;
+  // settles once the async evaluations run so far have settled, never rejects
+  private pending?: Promise<void>;
+  // set while an evaluation is waiting on pending ones, for `concurrency: 'latest'`
+  private queued: boolean = false;
+  // a debounced or throttled evaluation, resolved once it has been evaluated
+  private delayed?: {timer: ReturnType<typeof setTimeout>, evaluated: Deferred<void>};
+  private lastDelayed: number = 0;
   private readonly _promise = new Deferred<T>();
+  // the scannables and triggers being scanned, to scan again when restarted
+  private readonly targets: {scannable: Scannable<any>, trigger: Events.Listenable<any>}[] = [];
+  // the promises a combined Scanner is settled from, canceled when it settles
+  private readonly children = new Set<CancelablePromise<any>>();
+  // create a new Scanner that scans as this one did, for retries. It evaluates on the next trigger rather than immediately
+  private restart: () => Scanner<T>;
   public readonly [Symbol.toStringTag]: string = 'Promise';
 
   constructor(params: Scanner.Params<T>) {
-    const {evaluator, eager = true} = params;
+    const {evaluator, eager = true, tracer = noopTracer} = params;
     this.evaluator = evaluator;
+    this.tracer = tracer;
+    this.params = params;
+    this.restart = () => {
+      const scanner = new Scanner({...params, eager: false});
+      this.targets.forEach(({scannable, trigger}) => scanner.scan(scannable, trigger));
+      return scanner;
+    };
     if(eager) {
-      this.evaluate();
+      this.schedule();
+    }
+  }
+
+  /**
+   * A Scanner that resolves with the results of all of the scanners once they have all resolved,
+   * or rejects as soon as one of them rejects
+   */
+  public static all<S extends CancelablePromise<any>[]|[]>(scanners: S): Scanner<{[K in keyof S]: Scanner.ResultOf<S[K]>}> {
+    const children: CancelablePromise<any>[] = scanners;
+    return Scanner.combine<any>(children, (resolve, reject) => {
+      const results: any[] = [];
+      let remaining = children.length;
+      if(!remaining) {
+        resolve(results);
+      }
+      children.forEach((child, i) => child.then(result => {
+        results[i] = result;
+        if(--remaining === 0) {
+          resolve(results);
+        }
+      }, reject));
+    }, () => Scanner.all(children.map(Scanner.renew)));
+  }
+
+  /**
+   * A Scanner that settles as the first of the scanners to settle does
+   */
+  public static race<S extends CancelablePromise<any>[]|[]>(scanners: S): Scanner<Scanner.ResultOf<S[number]>> {
+    const children: CancelablePromise<any>[] = scanners;
+    return Scanner.combine<any>(children, (resolve, reject) => {
+      children.forEach(child => child.then(resolve, reject));
+    }, () => Scanner.race(children.map(Scanner.renew)));
+  }
+
+  /**
+   * A Scanner that resolves as the first of the scanners to resolve does,
+   * or rejects with an Error listing their `errors` once all of them have rejected
+   */
+  public static any<S extends CancelablePromise<any>[]|[]>(scanners: S): Scanner<Scanner.ResultOf<S[number]>> {
+    const children: CancelablePromise<any>[] = scanners;
+    return Scanner.combine<any>(children, (resolve, reject) => {
+      const errors: any[] = [];
+      let remaining = children.length;
+      const rejectAll = () => reject(Object.assign(new Error('All Scanners were rejected'), {errors}));
+      if(!remaining) {
+        rejectAll();
+      }
+      children.forEach((child, i) => child.then(resolve, e => {
+        errors[i] = e;
+        if(--remaining === 0) {
+          rejectAll();
+        }
+      }));
+    }, () => Scanner.any(children.map(Scanner.renew)));
+  }
+
+  /**
+   * A Scanner settled by `evaluator` from the results of `children`, which are canceled when it settles
+   * @param restart - create the Scanner again, for retries
+   */
+  private static combine<R>(children: CancelablePromise<any>[], evaluator: Scanner.Evaluator<R>, restart: () => Scanner<R>): Scanner<R> {
+    const scanner = new Scanner<R>({evaluator, eager: false});
+    children.forEach(child => scanner.children.add(child));
+    scanner.restart = restart;
+    evaluator(scanner.resolve, scanner.reject);
+    return scanner;
+  }
+
+  /**
+   * A Scanner that scans as `scanner` did, or `scanner` itself if it resolved or is not a Scanner
+   */
+  private static renew<R>(scanner: CancelablePromise<R>): CancelablePromise<R> {
+    return scanner instanceof Scanner && !scanner.resolved ? scanner.restart() : scanner;
+  }
+
+  /**
+   * A Scanner that settles as this one does, or rejects if this one has not settled within `ms`
+   * @param reason - what to reject with when the time expires. Defaults to a `TimeoutExpiredError`
+   */
+  public timeout(ms: number, reason?: string|Error): Scanner<T> {
+    const timer = sleep(ms);
+    return Scanner.combine([this, timer], (resolve, reject) => {
+      this.then(resolve, reject);
+      timer.then(() => reject(reason === undefined ? new TimeoutExpiredError(ms) : reason as Error), () => undefined);
+    }, () => this.restart().timeout(ms, reason));
+  }
+
+  /**
+   * A Scanner that settles as this one does, except that when this one is rejected it scans again, up to `attempts` more times.
+   * Each retry evaluates on the next trigger. Combined Scanners retry those of their scanners that have not resolved.
+   * Scanners canceled because all of their Scannables were destroyed are not retried
+   */
+  public retry(attempts: number): Scanner<T> {
+    const retrying: Scanner<T> = Scanner.combine([this], (resolve, reject) => {
+      let remaining = attempts;
+      const attempt = (scanner: Scanner<T>) => scanner.then(resolve, e => {
+        if(remaining > 0 && !scanner.canceled && !retrying.settled) {
+          remaining--;
+          const next = scanner.restart();
+          retrying.children.add(next);
+          attempt(next);
+        } else {
+          reject(e);
+        }
+      });
+      attempt(this);
+    }, () => this.restart().retry(attempts));
+    return retrying;
+  }
+
+  /**
+   * Evaluate as `params.debounce` and `params.throttle` allow.
+   * Returns a promise that settles once the evaluation has run if it is delayed
+   */
+  private trigger(): void|Promise<void> {
+    const {debounce, throttle} = this.params;
+    if(debounce !== undefined) {
+      return this.delay(debounce, true);
+    } else if(throttle !== undefined) {
+      const wait = this.lastDelayed + throttle - Date.now();
+      if(wait <= 0 && !this.delayed) {
+        this.lastDelayed = Date.now();
+        return this.schedule();
+      }
+      return this.delay(Math.max(wait, 0), false);
+    }
+    return this.schedule();
+  }
+
+  /**
+   * Evaluate in `ms`, unless an evaluation is already delayed. When `restart`, that evaluation is delayed by `ms` instead
+   */
+  private delay(ms: number, restart: boolean): Promise<void> {
+    if(this.delayed && !restart) {
+      return this.delayed.evaluated;
     }
+    const delayed = this.delayed || {timer: undefined, evaluated: new Deferred<void>()};
+    clearTimeout(delayed.timer);
+    delayed.timer = setTimeout(() => {
+      this.delayed = undefined;
+      this.lastDelayed = Date.now();
+      Promise.resolve()
+        .then(() => this.schedule())
+        .then(delayed.evaluated.resolve, delayed.evaluated.reject);
+    }, ms);
+    this.delayed = delayed;
+    return delayed.evaluated;
+  }
+
+  private clearDelay(): void {
+    if(this.delayed) {
+      clearTimeout(this.delayed.timer);
+      this.delayed.evaluated.resolve();
+      this.delayed = undefined;
+    }
+  }
+
+  /**
+   * Evaluate as `params.concurrency` allows
+   */
+  private schedule(): void|Promise<void> {
+    const {concurrency} = this.params;
+    if(!this.pending || !concurrency) {
+      return this.track(this.evaluate());
+    } else if(concurrency === 'skip' || (concurrency === 'latest' && this.queued)) {
+      return;
+    }
+    this.queued = true;
+    return this.track(this.pending.then(() => {
+      this.queued = false;
+      return this.evaluate();
+    }));
+  }
+
+  private track(result: void|Promise<void>): void|Promise<void> {
+    if(isPromiseLike(result)) {
+      const done = () => {
+        if(this.pending === pending) {
+          this.pending = undefined;
+        }
+      };
+      const pending: Promise<void> = Promise.all([this.pending, result.then(() => undefined, () => undefined)]).then(done);
+      this.pending = pending;
+    }
+    return result;
   }
 
   private evaluate(): void|Promise<void> {
     if(!this.settled) {
-      return this.evaluator(this.resolve, this.reject);
+      const evaluation = ++this.evaluations;
+      const span = this.tracer.startSpan('scan', activeSpanContext());
+      const fail = (e: any) => {
+        span.recordError(e);
+        span.end();
+        throw e;
+      };
+      // whether this evaluation resolved or rejected the scanner
+      let settles = false;
+      const resolve = (value: T) => {
+        settles = true;
+        this.resolve(value);
+      };
+      const reject = (err?: Error) => {
+        settles = true;
+        this.reject(err);
+      };
+      const succeed = () => {
+        span.end();
+        if(!settles) {
+          this.params.onProgress?.(evaluation);
+        }
+      };
+      let result: void|Promise<void>;
+      try {
+        result = withSpanContext(span.context, () => this.evaluator(resolve, reject));
+      } catch(e) {
+        fail(e);
+      }
+      if(isPromiseLike(result)) {
+        return result.then(succeed, fail);
+      }
+      succeed();
     }
   }
 
   private resolve(value: T): void {
     if(this.settle()) {
+      this.resolved = true;
       this._promise.resolve(value);
     }
   }
@@ -68,7 +333,11 @@ export class Scanner<T> implements CancelablePromise<T> {
     this.triggerListeners.clear();
     over(this.willDestroyListeners)();
     this.willDestroyListeners.clear();
-    return (this.settled = true);
+    this.settled = true;
+    this.clearDelay();
+    this.children.forEach(child => child.cancel());
+    this.children.clear();
+    return true;
   }
 
   public then<TResult1 = T, TResult2 = never>(
@@ -88,6 +357,7 @@ export class Scanner<T> implements CancelablePromise<T> {
 
   public cancel(reason?: string): boolean {
     if(this.settle()) {
+      this.canceled = true;
       this._promise.reject(reason);
       return true;
     } else {
@@ -105,11 +375,16 @@ export class Scanner<T> implements CancelablePromise<T> {
     if(this.settled) {
       return;
     }
-    const triggerListener = scannable.on(trigger, (() => this.evaluate()) as any);
+    this.targets.push({scannable, trigger});
+    const triggerListener = scannable.on(trigger, (() => this.trigger()) as any);
     const willDestroyListener = scannable.hook(Lifecycle.willDestroy, async () => {
       willDestroyListener();
       this.willDestroyListeners.delete(willDestroyListener);
       if(this.willDestroyListeners.size === 0) {
+        this.clearDelay();
+        if(this.pending) {
+          await this.pending;
+        }
         await this.evaluate();
         if(!this.settled) {
           this.cancel('All Scannables have been destroyed');
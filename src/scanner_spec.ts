@@ -186,4 +186,283 @@ describe('Scanner', () => {
       });
     });
   });
-});
\ No newline at end of file
+});
+describe('Scanner combinators', () => {
+  let storeA: Store;
+  let storeB: Store;
+
+  // resolves with the store's value once it is 1, rejects if it is 2
+  function scanFor(store: Store): Scanner<number> {
+    return new Scanner<number>({
+      evaluator: (resolve, reject) => {
+        if(store.value === 1) {
+          resolve(store.value);
+        } else if(store.value === 2) {
+          reject(new Error('rejected'));
+        }
+      }
+    }).scan(store, 'value');
+  }
+
+  beforeEach(() => {
+    storeA = new Store();
+    storeB = new Store();
+  });
+
+  describe('.all', () => {
+    it('resolves with the results of all of the scanners', async () => {
+      const all = Scanner.all([scanFor(storeA), scanFor(storeB)]);
+      storeA.value = 1;
+      storeB.value = 1;
+
+      await expectAsync(all).toBeResolvedTo([1, 1]);
+    });
+
+    it('rejects as soon as one scanner rejects, canceling the others', async () => {
+      const all = Scanner.all([scanFor(storeA), scanFor(storeB)]);
+      storeA.value = 2;
+
+      await expectAsync(all).toBeRejectedWithError('rejected');
+      expect(storeB.listeners.size).toEqual(0);
+    });
+
+    it('resolves immediately without scanners', async () => {
+      await expectAsync(Scanner.all([])).toBeResolvedTo([]);
+    });
+  });
+
+  describe('.race', () => {
+    it('settles as the first scanner to settle, canceling the others', async () => {
+      const race = Scanner.race([scanFor(storeA), scanFor(storeB)]);
+      storeB.value = 1;
+
+      await expectAsync(race).toBeResolvedTo(1);
+      expect(storeA.listeners.size).toEqual(0);
+    });
+  });
+
+  describe('.any', () => {
+    it('resolves as the first scanner to resolve', async () => {
+      const first = Scanner.any([scanFor(storeA), scanFor(storeB)]);
+      storeA.value = 2;
+      storeB.value = 1;
+
+      await expectAsync(first).toBeResolvedTo(1);
+    });
+
+    it('rejects once all of the scanners have rejected', async () => {
+      const first = Scanner.any([scanFor(storeA), scanFor(storeB)]);
+      storeA.value = 2;
+      storeB.value = 2;
+
+      const error = await first.catch(e => e);
+      expect(error.message).toBe('All Scanners were rejected');
+      expect(error.errors.length).toBe(2);
+    });
+  });
+
+  describe('#cancel', () => {
+    it('cancels the child scanners', () => {
+      const all = Scanner.all([scanFor(storeA), scanFor(storeB)]);
+      all.catch(() => undefined);
+      all.cancel();
+
+      expect(storeA.listeners.size).toEqual(0);
+      expect(storeB.listeners.size).toEqual(0);
+    });
+  });
+
+  describe('#timeout', () => {
+    it('settles as the scanner does within the time', async () => {
+      const scanner = scanFor(storeA).timeout(50);
+      storeA.value = 1;
+
+      await expectAsync(scanner).toBeResolvedTo(1);
+    });
+
+    it('rejects when the time expires, canceling the scanner', async () => {
+      await expectAsync(scanFor(storeA).timeout(5)).toBeRejectedWithError('Timeout expired after 5 milliseconds');
+      expect(storeA.listeners.size).toEqual(0);
+    });
+
+    it('rejects with the reason given', async () => {
+      await expectAsync(scanFor(storeA).timeout(5, 'too slow')).toBeRejectedWith('too slow');
+    });
+  });
+
+  describe('#retry', () => {
+    it('scans again when the scanner rejects', async () => {
+      const scanner = scanFor(storeA).retry(1);
+      storeA.value = 2;
+      await sleep(1);
+      expect(storeA.listeners.size).toEqual(1);
+
+      storeA.value = 1;
+      await expectAsync(scanner).toBeResolvedTo(1);
+      expect(storeA.listeners.size).toEqual(0);
+    });
+
+    it('rejects once out of attempts', async () => {
+      const scanner = scanFor(storeA).retry(1);
+      storeA.value = 2;
+      await sleep(1);
+      storeA.value = 0;
+      storeA.value = 2;
+
+      await expectAsync(scanner).toBeRejectedWithError('rejected');
+      expect(storeA.listeners.size).toEqual(0);
+    });
+
+    it('does not retry when the scannables are destroyed', async () => {
+      const scanner = scanFor(storeA).retry(3);
+      storeA.destroy();
+
+      await expectAsync(scanner).toBeRejectedWith('All Scannables have been destroyed');
+    });
+
+    it('retries combined scanners', async () => {
+      const scanner = Scanner.all([scanFor(storeA), scanFor(storeB)]).timeout(50).retry(1);
+      storeA.value = 2;
+      await sleep(1);
+      storeA.value = 1;
+      storeB.value = 1;
+
+      await expectAsync(scanner).toBeResolvedTo([1, 1]);
+    });
+  });
+});
+
+describe('Scanner evaluation controls', () => {
+  let store: Store;
+  let evaluator: jasmine.Spy;
+  let running: number;
+  let overlapping: number;
+
+  // an evaluator that takes `ms` to evaluate, counting how many evaluations overlap
+  function slowEvaluator(ms: number): jasmine.Spy {
+    return jasmine.createSpy('evaluator').and.callFake(async () => {
+      overlapping = Math.max(overlapping, ++running);
+      await sleep(ms);
+      running--;
+    });
+  }
+
+  function trigger(times: number): void {
+    for(let i = 0; i < times; i++) {
+      store.emit('value', null);
+    }
+  }
+
+  beforeEach(() => {
+    store = new Store();
+    evaluator = jasmine.createSpy('evaluator');
+    running = 0;
+    overlapping = 0;
+  });
+
+  describe('params.debounce', () => {
+    it('evaluates once triggers have stopped for the interval', async () => {
+      new Scanner({evaluator, eager: false, debounce: 10}).scan(store, 'value');
+      trigger(3);
+      await sleep(5);
+      trigger(1);
+      await sleep(5);
+      expect(evaluator).not.toHaveBeenCalled();
+
+      await sleep(10);
+      expect(evaluator).toHaveBeenCalledTimes(1);
+    });
+
+    it('evaluates immediately when the scannables are destroyed', async () => {
+      new Scanner({evaluator, eager: false, debounce: 50}).scan(store, 'value').catch(() => undefined);
+      trigger(1);
+      store.destroy();
+      await sleep(1);
+
+      expect(evaluator).toHaveBeenCalledTimes(1);
+      await sleep(60);
+      expect(evaluator).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting to evaluate once settled', async () => {
+      const scanner = new Scanner({evaluator, eager: false, debounce: 5}).scan(store, 'value');
+      scanner.catch(() => undefined);
+      trigger(1);
+      scanner.cancel();
+      await sleep(10);
+
+      expect(evaluator).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('params.throttle', () => {
+    it('evaluates at most once per interval, evaluating after the interval when triggered within it', async () => {
+      new Scanner({evaluator, eager: false, throttle: 20}).scan(store, 'value');
+      trigger(3);
+      expect(evaluator).toHaveBeenCalledTimes(1);
+
+      await sleep(30);
+      expect(evaluator).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('params.concurrency', () => {
+    it('lets async evaluations overlap by default', async () => {
+      evaluator = slowEvaluator(10);
+      new Scanner({evaluator, eager: false}).scan(store, 'value');
+      trigger(3);
+      await sleep(20);
+
+      expect(evaluator).toHaveBeenCalledTimes(3);
+      expect(overlapping).toBe(3);
+    });
+
+    it('skip drops evaluations triggered while one is pending', async () => {
+      evaluator = slowEvaluator(10);
+      new Scanner({evaluator, eager: false, concurrency: 'skip'}).scan(store, 'value');
+      trigger(3);
+      await sleep(20);
+
+      expect(evaluator).toHaveBeenCalledTimes(1);
+    });
+
+    it('queue runs each triggered evaluation after the pending ones', async () => {
+      evaluator = slowEvaluator(5);
+      new Scanner({evaluator, eager: false, concurrency: 'queue'}).scan(store, 'value');
+      trigger(3);
+      await sleep(40);
+
+      expect(evaluator).toHaveBeenCalledTimes(3);
+      expect(overlapping).toBe(1);
+    });
+
+    it('latest runs one evaluation after the pending ones', async () => {
+      evaluator = slowEvaluator(5);
+      new Scanner({evaluator, eager: false, concurrency: 'latest'}).scan(store, 'value');
+      trigger(3);
+      await sleep(30);
+
+      expect(evaluator).toHaveBeenCalledTimes(2);
+      expect(overlapping).toBe(1);
+    });
+  });
+
+  describe('params.onProgress', () => {
+    it('is called after each evaluation that does not settle the scanner', async () => {
+      const onProgress = jasmine.createSpy('onProgress');
+      const scanner = new Scanner<number>({
+        evaluator: async resolve => {
+          if(store.value === 1) {
+            resolve(store.value);
+          }
+        },
+        onProgress
+      }).scan(store, 'value');
+      store.value = 2;
+      store.value = 1;
+
+      await expectAsync(scanner).toBeResolvedTo(1);
+      expect(onProgress.calls.allArgs()).toEqual([[1], [2]]);
+    });
+  });
+});
@@ -1,26 +1,40 @@
 import {autobind} from 'core-decorators';
-import {CancelablePromise} from 'jaasync/lib/cancelable';
+import {CancelablePromise, retry} from 'jaasync/lib/cancelable';
+import {timeout, TimeoutExpiredError} from 'jaasync/lib/timeout';
 
+import {EventStream} from './eventStream';
+import {InMemoryMetricsSink} from './metrics';
+import {activeSpanContext, noopSpan, noopTracer, withSpanContext} from './tracing';
 import {Scanner} from './scanner';
+import {CancelableEmitResult, DeadLetter, DispatchMode, Emission, EmitResult, ErrorPolicy, HandlerError} from './types/dispatch';
 import * as Events from './types/events';
 import * as EventHandlers from './types/eventHandlers';
+import {HistoryEntry} from './types/history';
 import {Lifecycle} from './types/lifecycle';
 import {Logger} from './types/logger';
-import {Options, ListenerThresholds} from './types/options';
+import {BusMetrics, MetricsSink} from './types/metrics';
+import {Middleware} from './types/middleware';
+import {Options, ListenerThresholds, RequestOptions, SubscriptionOptions, WaitForOptions} from './types/options';
+import {Composable, ComposedEventMap, Pipeable, WaitForTarget} from './types/composition';
 import {Scannable} from './types/scannable';
-import {EventKeys, ElementType} from './types/utility';
+import {Span, SpanContext, Tracer} from './types/tracing';
+import {EventKeys, ElementType, Truthy} from './types/utility';
 import {over} from './utils/over';
+import {isListening, isPattern, matchingPatterns} from './utils/patterns';
+import {createEventContext} from './utils/createEventContext';
 import {generateSubscription} from './utils/generateSubscription';
+import {isPromiseLike} from './utils/isPromiseLike';
 import {randomId} from './utils/randomId';
 
 
 /**
  * @typeParam TEventMap - `{[Event]: Payload}`
+ * @typeParam TResponseMap - `{[Event]: Response}` for events handled with [[Bus.request]] and [[Bus.respond]]
  */
 @autobind
-export class Bus<TEventMap extends object = object> implements Scannable<TEventMap> {
+export class Bus<TEventMap extends object = object, TResponseMap extends object = {}> implements Scannable<TEventMap> {
 
-  private static defaultOptions: Required<Options> = {
+  private static defaultOptions: Required<Options<any>> = {
     name: 'Anonymous',
     allowUnhandledEvents: true,
     thresholds: {
@@ -28,7 +42,18 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
       warn: 500,
       error: Infinity
     },
-    logger: console
+    logger: console,
+    dispatch: 'async',
+    sticky: [],
+    history: 0,
+    validators: {},
+    rejectInvalidPayloads: false,
+    errorPolicy: 'swallow',
+    handlerTimeout: Infinity,
+    slowHandlerThreshold: Infinity,
+    metrics: null,
+    tracer: noopTracer,
+    events: null
   };
 
   /**
@@ -58,15 +83,80 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     Bus.defaultOptions.logger = logger;
   }
 
+  /**
+   * Set the default [[DispatchMode]] for all instances
+   * @setter [[DispatchMode]]
+   */
+  public static set defaultDispatch(dispatch: DispatchMode) {
+    Bus.defaultOptions.dispatch = dispatch;
+  }
+
+  /**
+   * Create a bus with the events of each of the buses, e.g. to combine the buses of feature modules that declare their own event maps.
+   * The composed bus pipes to each of the buses, forwarding each event only to the buses whose event map has it,
+   * i.e. those that declare it in `options.events`. Buses that do not declare their events receive the events they
+   * listen for, including with [[WILDCARD]] and [[Pattern]] handlers, the events they cache as sticky, and every event
+   * when they hook [[Lifecycle.willDispatch]]. Events that do not reach a bus are not unhandled events for it.
+   * Events raised directly on one of the buses do not reach the composed bus's own handlers
+   */
+  public static compose<TBuses extends unknown[]>(...buses: TBuses & Composable<TBuses>): Bus<ComposedEventMap<TBuses>> {
+    const composed = new Bus<ComposedEventMap<TBuses>>();
+    composed.composed = true;
+    const members: Composable<TBuses> = buses;
+    members.forEach(bus => composed.attach(bus));
+    return composed;
+  }
+
+  /**
+   * Wait for a condition spanning several buses, evaluating `predicate` each time one of the triggers is raised.
+   * Resolves with the first truthy value the predicate returns, or rejects with what it throws
+   */
+  public static waitForAll<TBuses extends Bus<any, any>[], R>(
+    targets: [...{[K in keyof TBuses]: WaitForTarget<TBuses[K]>}],
+    predicate: () => R,
+    options: WaitForOptions = {}
+  ): Scanner<Truthy<R>> {
+    return Bus.waitForTargets(targets, predicate, options, noopTracer);
+  }
+
+  private static waitForTargets<R>(
+    targets: WaitForTarget<Bus<any, any>>[],
+    predicate: () => R,
+    options: WaitForOptions,
+    tracer: Tracer
+  ): Scanner<Truthy<R>> {
+    const {timeout: ms, eager} = options;
+    const scanner = new Scanner<Truthy<R>>({evaluator: toEvaluator(predicate), eager, tracer});
+    targets.forEach(({bus, trigger}) => scanner.scan(bus, trigger));
+    return ms === undefined ? scanner : scanner.timeout(ms);
+  }
+
   private _active = false;
-  private _delegates = new Map<Bus<TEventMap>, Events.Subscription[]>();
+  private _delegates = new Map<Bus<any, any>, Events.Subscription[]>();
+  // set for buses created by Bus.compose, which forward events only to the delegates whose event maps have them
+  private composed = false;
+  // set while a bus that pipes to this bus forwards an event to it
+  private forwarding = false;
   private readonly subscriptionCache = new Map<string, Events.Subscription>();
-  private readonly options: Required<Options>;
+  private readonly options: Required<Options<TEventMap>>;
 
-  private readonly bus = new Map<EventKeys<TEventMap>|Events.WILDCARD, Set<EventHandlers.GenericHandler>>();
-  private readonly lifecycle = new Map<Lifecycle, Set<EventHandlers.GenericHandler>>();
+  // handlers for each event, with their subscription options, ordered by descending priority
+  private readonly bus = new Map<Events.ListenerKey<EventKeys<TEventMap>>, Handlers>();
+  private readonly lifecycle = new Map<Lifecycle, Handlers>();
+  private readonly middleware = new Set<Middleware<TEventMap>>();
+  private readonly stickyEvents: Set<EventKeys<TEventMap>>;
+  private readonly stickyPayloads = new Map<EventKeys<TEventMap>, any>();
+  // a ring buffer of up to options.history entries, the oldest at nextRecord once it is full
+  private readonly recorded: HistoryEntry<TEventMap>[] = [];
+  private nextRecord = 0;
+  private readonly ownMetrics = new InMemoryMetricsSink();
+  // handlers that have not settled and dispatches by emitAsync that have not completed, once tracked with trackPending
+  private pending: Set<Promise<unknown>>|undefined;
+  // errors that escaped error handling, once tracked with trackPending
+  private escaped: any[]|undefined;
+  private readonly responders = new Map<EventKeys<TResponseMap>, Set<EventHandlers.Responder<TEventMap, TResponseMap, any>>>();
 
-  constructor(options?: Options) {
+  constructor(options?: Options<TEventMap>) {
     this.options = {
       ...Bus.defaultOptions,
       ...options || {} as any,
@@ -75,6 +165,36 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
         ...Bus.defaultOptions.thresholds
       }
     };
+    this.stickyEvents = new Set(this.options.sticky);
+  }
+
+  /**
+   * Keep track of the handlers the bus and its delegates invoke from now on, for [[Bus.settled]].
+   * Buses do not track their handlers unless asked to, e.g. by a [[TestBus]]
+   */
+  protected trackPending(): void {
+    if(!this.pending) {
+      this.pending = new Set();
+      this.escaped = [];
+      this.delegates.forEach(delegate => delegate.trackPending());
+    }
+  }
+
+  /**
+   * Resolve once the handlers invoked by the bus and its delegates since [[Bus.trackPending]], including handlers of events they raise,
+   * have settled and their errors have been handled. Never resolves while a handler is stuck.
+   * Rejects with the errors that escape error handling, e.g. those thrown by a custom [[ErrorPolicy]]
+   */
+  protected async settled(): Promise<void> {
+    let pending = this.getPending();
+    while(pending.length) {
+      await Promise.all(pending);
+      pending = this.getPending();
+    }
+    const escaped = this.takeEscaped();
+    if(escaped.length) {
+      throw escaped[0];
+    }
   }
 
   /**
@@ -92,64 +212,209 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     throw new Error(errorMessage);
   }
 
+  /**
+   * @override
+   * How should the bus handle events raised with a payload rejected by `options.validators`.
+   * The default implementation is to throw an error.
+   * Will be invoked when an instance's `options.rejectInvalidPayloads = true` (default is false).
+   */
+  protected handleInvalidPayload<T extends EventKeys<TEventMap>>(event: T, payload: unknown) {
+    const errorMessage = [
+      `Strongbus.Bus received invalid payload for message type '${event}' with contents:`,
+      JSON.stringify(payload, null, 2)
+    ].join('\n');
+
+    throw new Error(errorMessage);
+  }
+
   /**
    * Subscribe a callback to event(s).
    * alias of [[Bus.proxy]] when invoked with [[WILDCARD]],
-   * alias of [[Bus.any]] when invoked with an array of events
+   * alias of [[Bus.any]] when invoked with an array of events.
+   * When invoked with a [[Pattern]] such as `"user.*"`, the handler receives every event in the namespace, with the event
+   * as first argument and payload as second argument.
+   * If a sticky event has been raised, the handler is invoked with its most recent payload immediately,
+   * and a [[Pattern]] handler with the most recent payload of each sticky event in the namespace
+   * @param options [[SubscriptionOptions]]
    */
-  public on<T extends Events.Listenable<EventKeys<TEventMap>>>(event: T, handler: EventHandlers.EventHandler<TEventMap, T>): Events.Subscription {
-    if(Array.isArray(event)) {
-      return this.any(event, handler as EventHandlers.MultiEventHandler<TEventMap>);
-    } else if(event === Events.WILDCARD) {
-      return this.proxy(handler as EventHandlers.WildcardEventHandler<TEventMap>);
-    } else {
-      return this.addListener(event as EventKeys<TEventMap>, handler);
+  public on<T extends Events.Listenable<EventKeys<TEventMap>>>(
+    event: T,
+    handler: EventHandlers.EventHandler<TEventMap, T>,
+    options?: SubscriptionOptions
+  ): Events.Subscription {
+    return this.subscribe(event, handler as EventHandlers.GenericHandler, options, handler as EventHandlers.GenericHandler);
+  }
+
+  /**
+   * Subscribe a callback to event(s), removing the subscription after the first event is delivered.
+   * Accepts the same event arguments as [[Bus.on]]. When given a list of events or [[WILDCARD]],
+   * the subscription is removed after the first of any of those events is raised.
+   * The returned Subscription may be invoked to cancel before any event is delivered.
+   */
+  public once<T extends Events.Listenable<EventKeys<TEventMap>>>(
+    event: T,
+    handler: EventHandlers.EventHandler<TEventMap, T>,
+    options?: SubscriptionOptions
+  ): Events.Subscription {
+    let delivered = false;
+    let sub: Events.Subscription;
+    sub = this.subscribe(event, (...args: any[]) => {
+      if(!delivered) {
+        delivered = true;
+        // sub is not yet assigned when a sticky payload is delivered during subscription
+        sub?.();
+        return (handler as EventHandlers.GenericHandler)(...args);
+      }
+    }, options, handler as EventHandlers.GenericHandler);
+    if(delivered) {
+      sub();
     }
+    return sub;
   }
 
+  /**
+   * Raise an event to handlers and delegates, after it passes through any [[Middleware]].
+   * Returns whether the event was handled. Events dropped or deferred by middleware are reported as unhandled.
+   * When `options.allowUnhandledEvents` is false, an unhandled event throws, unless middleware deferred it,
+   * in which case the error is raised as [[Lifecycle.error]] instead.
+   * Use [[emitCancelable]] to let handlers cancel the event and learn whether they did
+   */
   public emit<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): boolean {
     if(event === Events.WILDCARD) {
       throw new Error(`Do not emit "${event}" manually. Reserved for internal use.`);
     }
+    return this.raiseEvent(event, payload);
+  }
 
-    let handled = false;
+  /**
+   * Raise an event that handlers may cancel or stop from propagating, reporting whether they did.
+   * Handlers and delegates share a single [[EventContext]], passed as their last argument. [[EventContext.stopPropagation]] prevents
+   * the event from reaching lower priority handlers, [[WILDCARD]] handlers and delegates;
+   * [[EventContext.preventDefault]] marks the event as canceled, e.g. to veto a "before" event
+   */
+  public emitCancelable<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): CancelableEmitResult {
+    if(event === Events.WILDCARD) {
+      throw new Error(`Do not emit "${event}" manually. Reserved for internal use.`);
+    }
+    const context = createEventContext();
+    const handled = this.raiseEvent(event, payload, context);
+    return {
+      handled,
+      defaultPrevented: context.defaultPrevented,
+      propagationStopped: context.propagationStopped
+    };
+  }
 
-    handled = this.emitEvent(event, payload) || handled;
-    handled = this.emitEvent(Events.WILDCARD, event, payload) || handled;
-    handled = this.forward(event, payload) || handled;
+  /**
+   * Raise an event and wait for all of its handlers, including delegates' handlers, to settle.
+   * When `options.dispatch="sync"`, each handler is awaited before the next is invoked, in priority order,
+   * followed by each delegate; otherwise handlers are awaited in parallel.
+   * Resolves with an [[EmitResult]] reporting whether the event was handled and which handlers threw,
+   * or that it was intercepted before being dispatched
+   */
+  public async emitAsync<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): Promise<EmitResult<TEventMap>> {
+    if(event === Events.WILDCARD) {
+      throw new Error(`Do not emit "${event}" manually. Reserved for internal use.`);
+    }
 
-    if(!handled && !this.options.allowUnhandledEvents) {
-      this.handleUnexpectedEvent(event, payload);
+    const forwarded = this.takeForwarded();
+    return this.traced(event, async span => {
+      let result: Promise<EmitResult<TEventMap>>;
+      this.intercept(event, payload, p => {
+        result = this.dispatchAsync(event, p, forwarded);
+        // the dispatch rejects the emitAsync promise, so only its completion is tracked
+        this.track(result.then(() => undefined, () => undefined));
+      });
+      if(!result) {
+        this.measure(sink => sink.recordEmit(this.name, String(event), false));
+      }
+      const emitted: EmitResult<TEventMap> = await (result || {handled: false, errors: [], intercepted: true});
+      span.setAttribute('handled', emitted.handled);
+      return emitted;
+    });
+  }
+
+  /**
+   * Raise an event and cache its payload for future subscribers, as if it were configured in `options.sticky`.
+   * The event remains sticky for the lifetime of the bus
+   */
+  public emitSticky<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): boolean {
+    this.stickyEvents.add(event);
+    return this.emit(event, payload);
+  }
+
+  /**
+   * The most recent payload of a sticky event, or `undefined` if it has not been raised since it was last cleared
+   */
+  public last<T extends EventKeys<TEventMap>>(event: T): TEventMap[T]|undefined {
+    return this.stickyPayloads.get(event);
+  }
+
+  /**
+   * Clear the cached payload of a sticky event. The event remains sticky
+   */
+  public clearSticky(event: EventKeys<TEventMap>): void {
+    this.stickyPayloads.delete(event);
+  }
+
+  /**
+   * Measurements of the events raised on and listened to on this bus: emits, handler durations and errors, listener counts, and delegate fan-out.
+   * Also reported to `options.metrics` as they are taken
+   */
+  public metrics(): BusMetrics {
+    return this.ownMetrics.snapshot()[this.name] || {};
+  }
+
+  /**
+   * Events recorded when `options.history` is greater than `0`, oldest first
+   * @param filter - only include these events. Includes all recorded events by default
+   */
+  public history(filter: Events.Listenable<EventKeys<TEventMap>> = Events.WILDCARD): HistoryEntry<TEventMap>[] {
+    const recorded = this.recorded.slice(this.nextRecord).concat(this.recorded.slice(0, this.nextRecord));
+    if(filter === Events.WILDCARD) {
+      return recorded;
+    } else if(isPattern(filter)) {
+      return recorded.filter(entry => matchingPatterns(entry.event).includes(filter as string));
     }
-    return handled;
+    const events = new Set<EventKeys<TEventMap>>(Array.isArray(filter) ? filter : [filter as EventKeys<TEventMap>]);
+    return recorded.filter(entry => events.has(entry.event));
+  }
+
+  /**
+   * Add [[Middleware]] to intercept events before they reach handlers and delegates.
+   * Middleware is applied in the order it is added
+   */
+  public use(middleware: Middleware<TEventMap>): Events.Subscription {
+    const wrapped: Middleware<TEventMap> = (...args) => middleware(...args);
+    this.middleware.add(wrapped);
+    return generateSubscription(() => this.middleware.delete(wrapped));
   }
 
   /**
    * Handle multiple events with the same handler.
    * [[EventHandlers.MultiEventHandler]] receives raised event as first argument, payload as second argument
    */
-  public any<TEvents extends EventKeys<TEventMap>[]>(events: TEvents, handler: EventHandlers.MultiEventHandler<TEventMap, TEvents>): Events.Subscription {
-    return generateSubscription(over(
-      (events as any).map(<TEvent extends ElementType<TEvents>>(e: TEvent) => {
-        const anyHandler = (payload: TEventMap[TEvent]) => handler(e, payload);
-        return this.addListener(e, anyHandler);
-      })
-    ));
+  public any<TEvents extends EventKeys<TEventMap>[]>(
+    events: TEvents,
+    handler: EventHandlers.MultiEventHandler<TEventMap, TEvents>,
+    options?: SubscriptionOptions
+  ): Events.Subscription {
+    return this.subscribe(events, handler, options, handler);
   }
 
   /**
    * Create a proxy for all events raised. Like [[Bus.any]], handlers receive the raised event as first
    * argument and payload as second argument.
    */
-  public proxy(handler: EventHandlers.WildcardEventHandler<TEventMap>): Events.Subscription {
-    return this.addListener(Events.WILDCARD, handler);
+  public proxy(handler: EventHandlers.WildcardEventHandler<TEventMap>, options?: SubscriptionOptions): Events.Subscription {
+    return this.subscribe(Events.WILDCARD, handler, options, handler);
   }
 
   /**
    * @alias [[Bus.proxy]]
    */
-  public every(handler: EventHandlers.WildcardEventHandler<TEventMap>): Events.Subscription {
-    return this.proxy(handler);
+  public every(handler: EventHandlers.WildcardEventHandler<TEventMap>, options?: SubscriptionOptions): Events.Subscription {
+    return this.proxy(handler, options);
   }
 
   /**
@@ -171,12 +436,13 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
           : never
   ): CancelablePromise<T extends EventKeys<TEventMap> ? TEventMap[T] : void> {
     let settled: boolean = false;
+    const span = this.options.tracer.startSpan(`next ${resolvingEvent}`, activeSpanContext(), {bus: this.name});
     let resolveInternalPromise: (value: T extends EventKeys<TEventMap> ? TEventMap[T] : void) => void;
     let rejectInternalPromise: (err?: Error) => void;
     let willDestroyListener: Events.Subscription;
 
     const resolvingEventSub = this.on(resolvingEvent, ((...args: any[]) => {
-      if(resolvingEvent === Events.WILDCARD || Array.isArray(resolvingEvent)) {
+      if(resolvingEvent === Events.WILDCARD || Array.isArray(resolvingEvent) || isPattern(resolvingEvent)) {
         resolve(undefined);
       } else {
         resolve(args[0]);
@@ -201,6 +467,9 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     }
 
     function reject(err?: Error): void {
+      if(!settled) {
+        span.recordError(err);
+      }
       if(settle()) {
         rejectInternalPromise?.(err);
       }
@@ -214,6 +483,12 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
       rejectingEventSub?.();
       willDestroyListener?.();
       settled = true;
+      // relate the span to the span that settled it, e.g. the handler of the resolving event
+      const cause = activeSpanContext();
+      if(cause) {
+        span.addLink(cause);
+      }
+      span.end();
       return true;
     }
 
@@ -232,42 +507,126 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     return p;
   }
 
+  /**
+   * Send a request to the single responder registered for an event with [[Bus.respond]], on this bus or its delegates.
+   * Requests are not raised to event handlers.
+   * The promise rejects if there is no responder, if there are conflicting responders, if the responder throws,
+   * if `options.timeout` expires, or if the bus is destroyed before a response is received
+   */
+  public request<T extends EventKeys<TEventMap> & EventKeys<TResponseMap>>(
+    event: T,
+    payload: TEventMap[T],
+    options?: RequestOptions
+  ): CancelablePromise<TResponseMap[T]> {
+    const p = new CancelablePromise<TResponseMap[T]>(async () => {
+      const responders = this.getResponders(event);
+      if(!responders.length) {
+        throw new Error(`${this.name} has no responder for "${event}"`);
+      } else if(responders.length > 1) {
+        throw new Error(`${this.name} has ${responders.length} conflicting responders for "${event}"`);
+      }
+      const response = Promise.resolve(responders[0](payload));
+      return options?.timeout < Infinity
+        ? timeout(response, options.timeout)
+        : response;
+    });
+
+    // handle cancelation
+    const willDestroyListener = this.hook('willDestroy', () => p.cancel(`${this.name} destroyed`));
+    p.catch(e => null).finally(willDestroyListener);
+
+    return p;
+  }
+
+  /**
+   * Respond to requests made with [[Bus.request]]. The handler may return the response or a promise of it.
+   * Only one responder may be registered for an event across a bus and its delegates; requests are rejected while responders conflict
+   */
+  public respond<T extends EventKeys<TEventMap> & EventKeys<TResponseMap>>(
+    event: T,
+    handler: EventHandlers.Responder<TEventMap, TResponseMap, T>
+  ): Events.Subscription {
+    let responders = this.responders.get(event);
+    if(!responders) {
+      responders = new Set();
+      this.responders.set(event, responders);
+    }
+    responders.add(handler);
+    return generateSubscription(() => {
+      responders.delete(handler);
+      if(!responders.size && this.responders.get(event) === responders) {
+        this.responders.delete(event);
+      }
+    });
+  }
+
+  /**
+   * Create an [[EventStream]] of an event's payloads, usable as an Observable or an `AsyncIterable`.
+   * The stream completes when the bus is destroyed
+   */
+  public observe<T extends EventKeys<TEventMap>>(event: T): EventStream<TEventMap[T]> {
+    return new EventStream<TEventMap[T]>(({next, complete}) => generateSubscription(over([
+      this.on(event, ((payload: TEventMap[T]) => next(payload)) as EventHandlers.EventHandler<TEventMap, T>),
+      this.hook(Lifecycle.willDestroy, complete)
+    ])));
+  }
+
+  /**
+   * @alias [[Bus.observe]]
+   */
+  public stream<T extends EventKeys<TEventMap>>(event: T): EventStream<TEventMap[T]> {
+    return this.observe(event);
+  }
+
   /**
    * Utility for resolving/rejecting a promise based on an evaluation done when an event is triggered.
    * If params.eager=true (default), evaluates condition immedately and does not subscribe to any events
    * @typeParam R - scan promise is resolved with this type
    */
   public scan<R>(
-    params: {
-      evaluator: Scanner.Evaluator<R>,
-      trigger: Events.Listenable<EventKeys<TEventMap>>,
-      eager?: boolean
+    params: Omit<Scanner.Params<R>, 'tracer'> & {
+      trigger: Events.Listenable<EventKeys<TEventMap>>
     }
   ): CancelablePromise<R> {
     const {trigger, ...rest} = params;
-    const scanner = new Scanner(rest);
+    const scanner = new Scanner({...rest, tracer: this.options.tracer});
     scanner.scan(this, trigger);
     return scanner;
   }
 
   /**
-   * Pipe one bus's events into another bus's subscribers
+   * A view of the bus limited to some of its events, for both subscribing and raising,
+   * e.g. to give a feature module only the events it uses.
+   * The view is the bus itself with a narrower type, so it shares the bus's handlers, lifecycle, and delegates.
+   * [[WILDCARD]] and [[Pattern]] handlers added through the view receive all matching events of the bus
    */
-  public pipe<TDelegate extends Bus<TEventMap>>(delegate: TDelegate): TDelegate {
-    if(delegate !== this as any) {
-      if(!this._delegates.has(delegate)) {
-        this._delegates.set(delegate, [
-          delegate.hook(Lifecycle.willAddListener, this.willAddListener),
-          delegate.hook(Lifecycle.didAddListener, this.didAddListener),
-          delegate.hook(Lifecycle.willRemoveListener, this.willRemoveListener),
-          delegate.hook(Lifecycle.didRemoveListener, this.didRemoveListener)
-        ]);
-      }
-    }
+  public scope<TEvents extends EventKeys<TEventMap>>(): Bus<Pick<TEventMap, TEvents>, Pick<TResponseMap, Extract<TEvents, keyof TResponseMap>>>;
+  public scope(): Bus<any, any> {
+    return this;
+  }
+
+  /**
+   * Wait for a condition, evaluating `predicate` each time one of `options.triggers` is raised on the bus, or any event by default.
+   * Resolves with the first truthy value the predicate returns, or rejects with what it throws
+   */
+  public waitFor<R>(
+    predicate: () => R,
+    options: WaitForOptions & {triggers?: Events.Listenable<EventKeys<TEventMap>>} = {}
+  ): Scanner<Truthy<R>> {
+    const {triggers = Events.WILDCARD, ...rest} = options;
+    return Bus.waitForTargets([{bus: this, trigger: triggers}], predicate, rest, this.options.tracer);
+  }
+
+  /**
+   * Pipe one bus's events into another bus's subscribers.
+   * The delegate may have a subset of the bus's events, e.g. a feature bus piped from a bus created by [[Bus.compose]]
+   */
+  public pipe<TDelegate>(delegate: TDelegate & Pipeable<TEventMap, TDelegate>): TDelegate {
+    this.attach(delegate);
     return delegate;
   }
 
-  public unpipe<TDelegate extends Bus<TEventMap>>(delegate: TDelegate): void {
+  public unpipe<TDelegate>(delegate: TDelegate & Pipeable<TEventMap, TDelegate>): void {
     over(this._delegates.get(delegate) || [])();
     this._delegates.delete(delegate);
   }
@@ -333,9 +692,16 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     return false;
   }
 
-  public get listeners(): Map<EventKeys<TEventMap>|Events.WILDCARD, Set<EventHandlers.GenericHandler>> {
+  /**
+   * @getter `Bus[]` the buses this bus is piped to
+   */
+  public get delegates(): Bus<TEventMap, any>[] {
+    return Array.from(this._delegates.keys());
+  }
+
+  public get listeners(): Map<Events.ListenerKey<EventKeys<TEventMap>>, Set<EventHandlers.GenericHandler>> {
     const map = this.ownListeners;
-    this._delegates.forEach((_, delegate) => {
+    this.delegates.forEach(delegate => {
       delegate.listeners.forEach((delegateListeners, event) => {
         if(!delegateListeners.size) {
           return;
@@ -351,26 +717,26 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     return map;
   }
 
-  private get ownListeners(): Map<EventKeys<TEventMap>|Events.WILDCARD, Set<EventHandlers.EventHandler<TEventMap, any>>> {
-    const map = new Map<EventKeys<TEventMap>|Events.WILDCARD, Set<EventHandlers.EventHandler<TEventMap, any>>>();
+  private get ownListeners(): Map<Events.ListenerKey<EventKeys<TEventMap>>, Set<EventHandlers.EventHandler<TEventMap, any>>> {
+    const map = new Map<Events.ListenerKey<EventKeys<TEventMap>>, Set<EventHandlers.EventHandler<TEventMap, any>>>();
     this.bus.forEach((listeners, event) => {
-      if(listeners.size) {
-        map.set(event, new Set(listeners));
+      if(listeners.ordered.length) {
+        map.set(event, new Set(listeners.ordered));
       }
     });
     return map;
   }
 
-  public hasListenersFor(event: EventKeys<TEventMap>|Events.WILDCARD): boolean {
+  public hasListenersFor(event: Events.ListenerKey<EventKeys<TEventMap>>): boolean {
     return this.hasOwnListenersFor(event) || this.hasDelegateListenersFor(event);
   }
 
-  public  hasOwnListenersFor(event: EventKeys<TEventMap>|Events.WILDCARD): boolean {
+  public  hasOwnListenersFor(event: Events.ListenerKey<EventKeys<TEventMap>>): boolean {
     const handlers = this.bus.get(event);
-    return handlers?.size > 0;
+    return handlers?.ordered.length > 0;
   }
 
-  public hasDelegateListenersFor(event: EventKeys<TEventMap>|Events.WILDCARD): boolean {
+  public hasDelegateListenersFor(event: Events.ListenerKey<EventKeys<TEventMap>>): boolean {
     for(const delegate of this._delegates.keys()) {
       if(delegate.hasListenersFor(event)) {
         return true;
@@ -380,7 +746,7 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
   }
 
   /**
-   * Remove all event subscribers, lifecycle subscribers, and delegates
+   * Remove all event subscribers, responders, middleware, sticky payloads, history, lifecycle subscribers, and delegates
    * triggers lifecycle meta events for all subscribed events before removing lifecycle subscribers
    * @emits [[Lifecycle.willDestroy]]
    * @event [[Lifecycle.willDestroy]]
@@ -398,6 +764,11 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     // and they will be removed from the cache
     over(this.subscriptionCache)();
     this.bus.clear();
+    this.responders.clear();
+    this.middleware.clear();
+    this.stickyPayloads.clear();
+    this.recorded.length = 0;
+    this.nextRecord = 0;
   }
 
   private releaseDelegates(): void {
@@ -405,10 +776,39 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     this._delegates.clear();
   }
 
-  private addListener(event: EventKeys<TEventMap>|Events.WILDCARD, handler: EventHandlers.GenericHandler): Events.Subscription {
+  /**
+   * Subscribe a handler to event(s) as [[Bus.on]] does. Errors of the handler, which the bus may have wrapped,
+   * are reported as errors of `subscriber`, the handler it was given
+   */
+  private subscribe(
+    event: Events.Listenable<EventKeys<TEventMap>>,
+    handler: EventHandlers.GenericHandler,
+    options: SubscriptionOptions|undefined,
+    subscriber: EventHandlers.GenericHandler
+  ): Events.Subscription {
+    if(Array.isArray(event)) {
+      const subs = event.map(e => this.addListener(e, (...args: any[]) => handler(e, ...args), options, subscriber));
+      this.replay(event, options, entry => handler(entry.event, entry.payload), subscriber);
+      return generateSubscription(over(subs));
+    }
+    const sub = this.addListener(event, handler, options, subscriber);
+    if(event === Events.WILDCARD || isPattern(event)) {
+      this.replay(event, options, entry => handler(entry.event, entry.payload), subscriber);
+    } else {
+      this.replay(event, options, entry => handler(entry.payload), subscriber);
+    }
+    return sub;
+  }
+
+  private addListener(
+    event: Events.ListenerKey<EventKeys<TEventMap>>,
+    handler: EventHandlers.GenericHandler,
+    options?: SubscriptionOptions,
+    subscriber: EventHandlers.GenericHandler = handler
+  ): Events.Subscription {
     const {thresholds, logger} = this.options;
     const handlers = this.bus.get(event);
-    const n: number = handlers?.size || 0;
+    const n: number = handlers?.ordered.length || 0;
     if(n > thresholds.info) {
       logger.info(`${this.name} has ${n} listeners for "${event}", ${thresholds.info} max listeners expected.`);
     } else if(n > thresholds.warn) {
@@ -417,12 +817,42 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
       logger.error(`Potential Memory Leak. ${this.name} has ${n} listeners for "${event}", exceeds threshold set to ${thresholds.error}`);
     }
     this.willAddListener(event);
-    addListener(this.bus, event, handler);
+    addListener(this.bus, event, handler, options, subscriber);
+    this.measureListeners(event);
     this.didAddListener(event);
-    return this.cacheListener(event as EventKeys<TEventMap>, handler);
+    const sub = this.cacheListener(event as EventKeys<TEventMap>, handler);
+    // a replaying subscription receives the sticky payload only if it is among the replayed events
+    if(event !== Events.WILDCARD && !this.replays(options)) {
+      if(isPattern(event)) {
+        this.stickyPayloads.forEach((payload, e) => {
+          if(isListening(event, e)) {
+            this.deliverSticky(event, e, [e, payload], handler, options, subscriber);
+          }
+        });
+      } else if(this.stickyPayloads.has(event)) {
+        this.deliverSticky(event, event, [this.stickyPayloads.get(event)], handler, options, subscriber);
+      }
+    }
+    return sub;
   }
 
-  private cacheListener(event: EventKeys<TEventMap>|Events.WILDCARD, handler: EventHandlers.GenericHandler): Events.Subscription {
+  /**
+   * Invoke a new subscriber with the most recent payload of a sticky event, as `(payload)`, or as `(event, payload)` for a [[Pattern]]
+   */
+  private deliverSticky(
+    key: Events.ListenerKey<EventKeys<TEventMap>>,
+    event: EventKeys<TEventMap>,
+    args: any[],
+    handler: EventHandlers.GenericHandler,
+    options: SubscriptionOptions|undefined,
+    subscriber: EventHandlers.GenericHandler
+  ): void {
+    const payload = this.stickyPayloads.get(event);
+    const onError = (error: any) => this.handleError(key, {event, payload, handler: subscriber, error}, options);
+    this.invoke(this.watch(event, handler, options, subscriber), args, onError, options);
+  }
+
+  private cacheListener(event: Events.ListenerKey<EventKeys<TEventMap>>, handler: EventHandlers.GenericHandler): Events.Subscription {
     const token = randomId();
     const sub = generateSubscription(() => {
       if(this.subscriptionCache.has(token)) {
@@ -434,68 +864,568 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     return sub;
   }
 
-  private removeListener(event: EventKeys<TEventMap>|Events.WILDCARD, handler: EventHandlers.GenericHandler): void {
+  private removeListener(event: Events.ListenerKey<EventKeys<TEventMap>>, handler: EventHandlers.GenericHandler): void {
     this.willRemoveListener(event);
     removeListener(this.bus, event, handler);
+    this.measureListeners(event);
     this.didRemoveListener(event);
   }
 
-  private emitEvent(event: EventKeys<TEventMap>|Events.WILDCARD, ...args: any[]): boolean {
-    const handlers = this.bus.get(event);
-      if(handlers && handlers.size) {
-        handlers.forEach(async fn => {
+  /**
+   * Invoke the bus's handlers, passing each the [[EventContext]] of a cancelable event as its last argument
+   */
+  private emitEvent<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], context?: Events.EventContext): boolean {
+    const invocations = this.getInvocations(event, payload);
+    // errors to rethrow under the "throw" policy, until the bus's handlers have been invoked
+    let thrown: any[] = [];
+    for(const invocation of invocations) {
+      if(context?.propagationStopped) {
+        break;
+      }
+      if(this.isSubscribed(invocation)) {
+        const {event: e, handler, subscriber, args, options} = invocation;
+        const onError = (error: any) => this.handleError(e, {event, payload, handler: subscriber, error}, options, thrown);
+        this.invoke(this.watch(event, handler, options, subscriber), context ? [...args, context] : args, onError, options);
+      }
+    }
+    const errors = thrown;
+    thrown = undefined;
+    if(errors.length) {
+      throw errors[0];
+    }
+    return invocations.length > 0;
+  }
+
+  /**
+   * Raise an event on this bus and its delegates, sharing a single [[EventContext]]
+   */
+  protected emitInContext<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], context: Events.EventContext): boolean {
+    return this.raiseEvent(event, payload, context);
+  }
+
+  /**
+   * Pass an event through middleware to the bus's handlers and delegates, tracing and measuring it,
+   * and reporting it as unexpected when it is not handled. The same steps apply to each delegate the event is forwarded to
+   */
+  private raiseEvent<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], context?: Events.EventContext): boolean {
+    const forwarded = this.takeForwarded();
+    let handled = false;
+    // whether middleware deferred the event until after it was raised
+    let deferred = false;
+
+    this.traced(event, span => this.intercept(event, payload, p => {
+      const emission = this.willDispatch(event, p, forwarded);
+      handled = this.emitEvent(event, p, context) || handled;
+      handled = this.forward(event, p, context) || handled;
+      emission.handled = handled;
+      this.measure(sink => sink.recordEmit(this.name, String(event), handled));
+      span.setAttribute('handled', handled);
+
+      if(!handled && !this.options.allowUnhandledEvents) {
+        if(!deferred) {
+          this.handleUnexpectedEvent(event, p);
+        } else {
+          // nothing would catch what is thrown from the middleware's callback
           try {
-            await fn(...args);
-          } catch(e) {
-            this.emitLifecycleEvent(Lifecycle.error, {error: e, event});
+            this.handleUnexpectedEvent(event, p);
+          } catch(error) {
+            this.emitLifecycleEvent(Lifecycle.error, {error, event});
           }
-        });
-        return true;
+        }
       }
-      return false;
+    }));
+    deferred = true;
+    return handled;
   }
 
-  private emitLifecycleEvent<L extends Lifecycle>(event: L, payload: Lifecycle.EventMap<TEventMap>[L]): void {
-    const handlers = this.lifecycle.get(event);
-    if(handlers && handlers.size) {
-      handlers.forEach(async fn => {
+  /**
+   * Invoke a handler according to `options.dispatch`, passing anything it throws or rejects with to `onError`.
+   * When the subscription has `retry` options, the handler is retried before its error is passed to `onError`
+   */
+  private invoke(fn: EventHandlers.GenericHandler, args: any[], onError: (e: any) => void, options?: SubscriptionOptions): void {
+    if(options?.retry) {
+      this.track(retry(async () => fn(...args), {maxRetryAttempts: 3, ...options.retry}).then(null, onError));
+    } else if(this.options.dispatch === 'sync') {
+      try {
+        const result = fn(...args);
+        if(isPromiseLike(result)) {
+          this.track(Promise.resolve(result).then(null, onError));
+        }
+      } catch(e) {
+        onError(e);
+      }
+    } else {
+      this.track((async () => {
         try {
-          await fn(payload);
+          await fn(...args);
         } catch(e) {
-          if(event === Lifecycle.error) {
-            const errorPayload = payload as Lifecycle.EventMap<TEventMap>['error'];
-            this.options.logger.error('Error thrown in error handler', {
-                errorHandler: fn.name,
-                errorHandlerError: e,
-                originalEvent: errorPayload.event,
-                eventHandlerError: errorPayload.error
-            });
-          } else {
-            this.emitLifecycleEvent(Lifecycle.error, {error: e, event});
-          }
+          onError(e);
         }
+      })());
+    }
+  }
+
+  /**
+   * The handlers for an event merged with the matching [[Pattern]] and [[WILDCARD]] handlers, ordered by descending priority.
+   * Among handlers of equal priority, event handlers come first, then pattern handlers from most to least specific, then wildcard handlers
+   */
+  private getInvocations<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): Invocation<TEventMap>[] {
+    const toInvocations = (key: Events.ListenerKey<EventKeys<TEventMap>>, args: any[]): Invocation<TEventMap>[] => {
+      const handlers = this.bus.get(key);
+      return handlers ? handlers.ordered.map(handler => {
+        const {options, subscriber} = handlers.subscriptions.get(handler);
+        return {event: key, handler, subscriber, args, priority: options.priority || 0, options};
+      }) : [];
+    };
+
+    const groups = [
+      toInvocations(event, [payload]),
+      ...matchingPatterns(event).map(pattern => toInvocations(pattern as Events.Pattern<EventKeys<TEventMap>>, [event, payload])),
+      toInvocations(Events.WILDCARD, [event, payload])
+    ].filter(group => group.length);
+
+    const invocations: Invocation<TEventMap>[] = [];
+    while(groups.length) {
+      // each group is ordered by priority; take the head with the highest priority, preferring earlier groups
+      const next = groups.reduce((best, group) => group[0].priority > best[0].priority ? group : best);
+      invocations.push(next.shift());
+      if(!next.length) {
+        groups.splice(groups.indexOf(next), 1);
+      }
+    }
+    return invocations;
+  }
+
+  /**
+   * Handlers may be unsubscribed by a higher priority handler while an event is being dispatched
+   */
+  private isSubscribed(invocation: Invocation<TEventMap>): boolean {
+    return this.bus.get(invocation.event)?.subscriptions.has(invocation.handler) || false;
+  }
+
+  private getResponders<T extends EventKeys<TEventMap> & EventKeys<TResponseMap>>(event: T): EventHandlers.Responder<TEventMap, TResponseMap, T>[] {
+    const responders = Array.from(this.responders.get(event) || []);
+    for(const delegate of this._delegates.keys()) {
+      responders.push(...delegate.getResponders(event));
+    }
+    return responders;
+  }
+
+  private async dispatchAsync<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], forwarded: boolean): Promise<EmitResult<TEventMap>> {
+    const emission = this.willDispatch(event, payload, forwarded);
+    const errors: HandlerError<TEventMap>[] = [];
+    // errors to reject with under the "throw" policy
+    const thrown: any[] = [];
+    // handlers and delegates awaited in turn are invoked after the emit's span is no longer active
+    const spanContext = activeSpanContext();
+    const invocations: (() => Promise<void>)[] = this.getInvocations(event, payload).map(invocation => async () => {
+      if(!this.isSubscribed(invocation)) {
+        return;
+      }
+      const {event: e, handler, subscriber, args, options} = invocation;
+      const watched = this.watch(event, handler, options, subscriber, spanContext);
+      try {
+        await (options.retry ? retry(async () => watched(...args), {maxRetryAttempts: 3, ...options.retry}) : watched(...args));
+      } catch(error) {
+        errors.push({event: e, handler: subscriber, error});
+        this.handleError(e, {event, payload, handler: subscriber, error}, options, thrown);
+      }
+    });
+    let handled = invocations.length > 0;
+    const delegates = this.delegatesFor(event);
+    for(const delegate of delegates) {
+      invocations.push(async () => {
+        const result = await withSpanContext(spanContext, () => this.forwardTo(delegate, () => delegate.emitAsync(event, payload)));
+        handled = result.handled || handled;
+        errors.push(...result.errors);
       });
     }
+
+    if(this.options.dispatch === 'sync') {
+      for(const invoke of invocations) {
+        await invoke();
+      }
+    } else {
+      await Promise.all(invocations.map(invoke => invoke()));
+    }
+
+    if(delegates.length) {
+      this.measure(sink => sink.recordFanOut(this.name, String(event), delegates.length));
+    }
+    this.measure(sink => sink.recordEmit(this.name, String(event), handled));
+    emission.handled = handled;
+    if(thrown.length) {
+      throw thrown[0];
+    }
+    if(!handled && !this.options.allowUnhandledEvents) {
+      this.handleUnexpectedEvent(event, payload);
+    }
+    return {handled, errors, intercepted: false};
+  }
+
+  /**
+   * Pass an event through each [[Middleware]] in turn before dispatching it
+   */
+  private intercept<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], dispatch: (payload: TEventMap[T]) => void): void {
+    const middleware = Array.from(this.middleware);
+    const run = (index: number, p: TEventMap[T]): void => {
+      if(index < middleware.length) {
+        let called = false;
+        middleware[index](event, p, (...args: [TEventMap[T]?]) => {
+          if(!called) {
+            called = true;
+            run(index + 1, args.length ? args[0] : p);
+          }
+        });
+      } else if(this.validate(event, p)) {
+        this.record(event, p);
+        dispatch(p);
+      }
+    };
+    run(0, payload);
   }
 
-  private forward<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], ...args: any[]): boolean {
-    const {_delegates} = this;
-    if(_delegates.size) {
-      return Array.from(_delegates.keys())
-        .reduce((acc, d) => (d.emit(event, payload) || acc), false);
+  /**
+   * Check a payload with `options.validators`, handling it according to `options.rejectInvalidPayloads` if invalid
+   * @emits [[Lifecycle.invalidPayload]]
+   */
+  private validate<T extends EventKeys<TEventMap>>(event: T, payload: unknown): boolean {
+    const validator = this.options.validators[event];
+    if(!validator || validator(payload)) {
+      return true;
+    }
+    if(this.options.rejectInvalidPayloads) {
+      this.handleInvalidPayload(event, payload);
     } else {
-      return false;
+      this.emitLifecycleEvent(Lifecycle.invalidPayload, {event, payload});
+    }
+    return false;
+  }
+
+  private record<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]): void {
+    if(this.stickyEvents.has(event)) {
+      this.stickyPayloads.set(event, payload);
+    }
+    const {history} = this.options;
+    if(history > 0) {
+      const entry: HistoryEntry<TEventMap> = {event, payload, timestamp: Date.now()};
+      if(this.recorded.length < history) {
+        this.recorded.push(entry);
+      } else {
+        this.recorded[this.nextRecord] = entry;
+        this.nextRecord = (this.nextRecord + 1) % history;
+      }
+    }
+  }
+
+  /**
+   * Whether a subscription replays recorded events, which include the most recent payload of each sticky event
+   */
+  private replays(options: SubscriptionOptions|undefined): boolean {
+    return options?.replay > 0 && this.options.history > 0;
+  }
+
+  /**
+   * Deliver recorded events to a new subscriber when `options.replay` is greater than `0`
+   */
+  private replay(
+    filter: Events.Listenable<EventKeys<TEventMap>>,
+    options: SubscriptionOptions|undefined,
+    deliver: (entry: HistoryEntry<TEventMap>) => void,
+    subscriber: EventHandlers.GenericHandler
+  ): void {
+    if(this.replays(options)) {
+      this.history(filter).slice(-options.replay).forEach(entry => {
+        const onError = (error: any) => this.handleError(entry.event, {...entry, handler: subscriber, error}, options);
+        this.invoke(this.watch(entry.event, deliver, options, subscriber), [entry], onError, options);
+      });
+    }
+  }
+
+  /**
+   * Wrap a handler to measure how long it takes to settle and whether it fails, for [[Bus.metrics]] and `options.metrics`.
+   * A handler whose promise has not settled after `options.timeout` (or the bus's `options.handlerTimeout`) fails with a `TimeoutExpiredError`,
+   * and one that settles after `options.slowHandlerThreshold` is logged.
+   * When the bus has `options.tracer`, each invocation is traced in a span that is a child of `parent`, which defaults to the active span
+   * @emits [[Lifecycle.handlerTimeout]]
+   */
+  private watch(
+    event: EventKeys<TEventMap>,
+    handler: EventHandlers.GenericHandler,
+    options?: SubscriptionOptions,
+    subscriber: EventHandlers.GenericHandler = handler,
+    parent: SpanContext|undefined = activeSpanContext()
+  ): EventHandlers.GenericHandler {
+    const {handlerTimeout, slowHandlerThreshold, logger, tracer} = this.options;
+    const ms = options?.timeout ?? handlerTimeout;
+    const tracing = tracer !== noopTracer;
+    return (...args: any[]) => {
+      const started = Date.now();
+      const span = tracing ? tracer.startSpan(`handle ${event}`, parent, {bus: this.name, event, handler: subscriber.name || 'anonymous'}) : undefined;
+      const report = (failed: boolean, error?: any) => {
+        const elapsed = Date.now() - started;
+        if(span && failed) {
+          span.recordError(error);
+        }
+        span?.end();
+        this.measure(sink => sink.recordHandler(this.name, String(event), elapsed, failed));
+        if(elapsed > slowHandlerThreshold) {
+          logger.warn(`Slow handler. ${this.name} handler "${subscriber.name || 'anonymous'}" for "${event}" took ${elapsed}ms, exceeds threshold set to ${slowHandlerThreshold}`);
+        }
+      };
+      let result: any;
+      try {
+        result = span ? withSpanContext(span.context, () => handler(...args)) : handler(...args);
+      } catch(e) {
+        report(true, e);
+        throw e;
+      }
+      if(!isPromiseLike(result)) {
+        report(false);
+        return result;
+      }
+      const settled = Promise.resolve(result).then(() => report(false), e => {
+        report(true, e);
+        throw e;
+      });
+      return ms === Infinity ? settled : timeout(settled, ms).catch(e => {
+        if(e instanceof TimeoutExpiredError) {
+          this.emitLifecycleEvent(Lifecycle.handlerTimeout, {event, handler: subscriber, timeout: ms});
+        }
+        throw e;
+      });
+    };
+  }
+
+  /**
+   * Raise an event in a span when the bus has `options.tracer`, so the spans of its handlers and delegates are children of it.
+   * The span ends when `raise` returns, or when the promise it returns settles
+   */
+  private traced<R>(event: EventKeys<TEventMap>, raise: (span: Span) => R): R {
+    if(this.options.tracer === noopTracer) {
+      return raise(noopSpan);
+    }
+    const span = this.options.tracer.startSpan(`emit ${event}`, activeSpanContext(), {bus: this.name, event});
+    const fail = (e: any) => {
+      span.recordError(e);
+      span.end();
+      throw e;
+    };
+    let result: R;
+    try {
+      result = withSpanContext(span.context, () => raise(span));
+    } catch(e) {
+      fail(e);
+    }
+    if(isPromiseLike(result)) {
+      return Promise.resolve(result).then(r => {
+        span.end();
+        return r;
+      }, fail) as any;
+    }
+    span.end();
+    return result;
+  }
+
+  /**
+   * Record a measurement in the bus's own metrics and `options.metrics`
+   */
+  private measure(record: (sink: MetricsSink) => void): void {
+    record(this.ownMetrics);
+    if(this.options.metrics) {
+      record(this.options.metrics);
+    }
+  }
+
+  private measureListeners(event: Events.ListenerKey<EventKeys<TEventMap>>): void {
+    this.measure(sink => sink.recordListeners(this.name, String(event), this.bus.get(event)?.ordered.length || 0));
+  }
+
+  /**
+   * Report a handler that threw or rejected, then apply its [[ErrorPolicy]]
+   * @param key - what the handler subscribed to
+   * @param thrown - collects errors to rethrow under the `"throw"` policy while the event is being dispatched
+   * @emits [[Lifecycle.error]]
+   * @emits [[Lifecycle.deadLetter]]
+   */
+  private handleError(
+    key: Events.ListenerKey<EventKeys<TEventMap>>,
+    deadLetter: DeadLetter<TEventMap>,
+    options?: SubscriptionOptions,
+    thrown?: any[]
+  ): void {
+    const policy: ErrorPolicy<TEventMap> = options?.errorPolicy || this.options.errorPolicy;
+    const {event, error} = deadLetter;
+    this.emitLifecycleEvent(Lifecycle.error, {error, event: key});
+    this.emitLifecycleEvent(Lifecycle.deadLetter, deadLetter);
+    if(typeof policy === 'function') {
+      policy(deadLetter);
+    } else if(policy === 'log') {
+      this.options.logger.error(`${this.name} handler for "${event}" failed`, error);
+    } else if(policy === 'throw' && thrown) {
+      thrown.push(error);
+    } else if(policy === 'throw' || policy === 'rethrowAsync') {
+      setTimeout(() => {
+        throw error;
+      });
+    }
+  }
+
+  /**
+   * Keep track of a handler or dispatch until it settles, if the bus tracks its pending handlers, see [[Bus.settled]].
+   * A rejection is left for [[Bus.settled]] to report, or otherwise remains unhandled
+   */
+  /**
+   * Errors that escape error handling, e.g. those thrown by a custom [[ErrorPolicy]], are logged,
+   * or collected for [[Bus.settled]] once the bus tracks pending handlers
+   */
+  private track(promise: PromiseLike<unknown>): void {
+    const handled = Promise.resolve(promise).catch(e => {
+      if(this.escaped) {
+        this.escaped.push(e);
+      } else {
+        this.options.logger.error(`${this.name} error policy failed`, e);
+      }
+    });
+    if(this.pending) {
+      const tracked: Promise<unknown> = handled.finally(() => this.pending.delete(tracked));
+      this.pending.add(tracked);
+    }
+  }
+
+  private getPending(): Promise<unknown>[] {
+    return this.delegates.reduce((pending, delegate) => pending.concat(delegate.getPending()), Array.from(this.pending || []));
+  }
+
+  private takeEscaped(): any[] {
+    const escaped = this.delegates.reduce((errors, delegate) => errors.concat(delegate.takeEscaped()), this.escaped || []);
+    if(this.escaped) {
+      this.escaped = [];
+    }
+    return escaped;
+  }
+
+  /**
+   * @emits [[Lifecycle.willDispatch]]
+   */
+  private willDispatch<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], forwarded: boolean): Emission<TEventMap, T> {
+    const emission: Emission<TEventMap, T> = {event, payload, forwarded};
+    this.emitLifecycleEvent(Lifecycle.willDispatch, emission);
+    return emission;
+  }
+
+  /**
+   * Raise an event on a delegate, which reports it as forwarded
+   */
+  private forwardTo<R>(delegate: Bus<TEventMap, any>, raise: () => R): R {
+    delegate.forwarding = true;
+    try {
+      return raise();
+    } finally {
+      delegate.forwarding = false;
+    }
+  }
+
+  /**
+   * Whether the event being raised was forwarded by a piping bus. Events raised by its handlers are not
+   */
+  private takeForwarded(): boolean {
+    const forwarded = this.forwarding;
+    this.forwarding = false;
+    return forwarded;
+  }
+
+  protected emitLifecycleEvent<L extends Lifecycle>(event: L, payload: Lifecycle.EventMap<TEventMap>[L]): void {
+    const handlers = this.lifecycle.get(event);
+    if(!handlers) {
+      return;
+    }
+    // hooks added while the event is raised are not invoked, and hooks removed are skipped
+    for(const fn of handlers.ordered.slice()) {
+      if(!handlers.subscriptions.has(fn)) {
+        continue;
+      }
+      this.invoke(fn, [payload], e => {
+        if(event === Lifecycle.error) {
+          const errorPayload = payload as Lifecycle.EventMap<TEventMap>['error'];
+          this.options.logger.error('Error thrown in error handler', {
+              errorHandler: fn.name,
+              errorHandlerError: e,
+              originalEvent: errorPayload.event,
+              eventHandlerError: errorPayload.error
+          });
+        } else {
+          this.emitLifecycleEvent(Lifecycle.error, {error: e, event});
+        }
+      });
+    }
+  }
+
+  /**
+   * Raise an event on each delegate, sharing the [[EventContext]] of a cancelable event until a handler stops its propagation
+   */
+  private forward<T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], context?: Events.EventContext): boolean {
+    let handled = false;
+    let delegates = 0;
+    for(const d of this.delegatesFor(event)) {
+      if(context?.propagationStopped) {
+        break;
+      }
+      delegates++;
+      handled = this.forwardTo(d, () => context ? d.emitInContext(event, payload, context) : d.emit(event, payload)) || handled;
+    }
+    if(delegates) {
+      this.measure(sink => sink.recordFanOut(this.name, String(event), delegates));
     }
+    return handled;
+  }
+
+  /**
+   * The delegates an event is forwarded to. Buses composed with [[Bus.compose]] only receive the events of their event maps
+   */
+  private delegatesFor(event: EventKeys<TEventMap>): Bus<TEventMap, any>[] {
+    const delegates = Array.from(this._delegates.keys());
+    return this.composed ? delegates.filter(d => d.receives(event)) : delegates;
   }
 
-  private willAddListener(event: EventKeys<TEventMap>|Events.WILDCARD) {
+  /**
+   * Whether a composing bus forwards the event to this bus: whether it is one of `options.events`, or when they are not given,
+   * whether the bus or its delegates listen for it, watch events being dispatched or cache it as sticky
+   */
+  private receives(event: EventKeys<TEventMap>): boolean {
+    const {events} = this.options;
+    if(events) {
+      return events.includes(event);
+    }
+    const keys: Events.ListenerKey<EventKeys<TEventMap>>[] = [event, Events.WILDCARD, ...matchingPatterns(event) as Events.Pattern<EventKeys<TEventMap>>[]];
+    return keys.some(key => this.hasOwnListenersFor(key))
+      || this.lifecycle.has(Lifecycle.willDispatch)
+      || this.stickyEvents.has(event)
+      || Array.from(this._delegates.keys()).some(d => d.receives(event));
+  }
+
+  private attach(bus: Bus<any, any>): void {
+    if(bus !== this && !this._delegates.has(bus)) {
+      if(this.pending) {
+        bus.trackPending();
+      }
+      this._delegates.set(bus, [
+        bus.hook(Lifecycle.willAddListener, this.willAddListener),
+        bus.hook(Lifecycle.didAddListener, this.didAddListener),
+        bus.hook(Lifecycle.willRemoveListener, this.willRemoveListener),
+        bus.hook(Lifecycle.didRemoveListener, this.didRemoveListener)
+      ]);
+    }
+  }
+
+  protected willAddListener(event: Events.ListenerKey<EventKeys<TEventMap>>) {
     this.emitLifecycleEvent(Lifecycle.willAddListener, event);
     if(!this.active) {
       this.emitLifecycleEvent(Lifecycle.willActivate, null);
     }
   }
 
-  private didAddListener(event: EventKeys<TEventMap>|Events.WILDCARD) {
+  protected didAddListener(event: Events.ListenerKey<EventKeys<TEventMap>>) {
     this.emitLifecycleEvent(Lifecycle.didAddListener, event);
     if(!this.active && this.hasListeners) {
       this._active = true;
@@ -503,14 +1433,14 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
     }
   }
 
-  private willRemoveListener(event: EventKeys<TEventMap>|Events.WILDCARD) {
+  protected willRemoveListener(event: Events.ListenerKey<EventKeys<TEventMap>>) {
     this.emitLifecycleEvent(Lifecycle.willRemoveListener, event);
     if(this.active && this.listeners.size === 1) {
       this.emitLifecycleEvent(Lifecycle.willIdle, null);
     }
   }
 
-  private didRemoveListener(event: EventKeys<TEventMap>|Events.WILDCARD) {
+  protected didRemoveListener(event: Events.ListenerKey<EventKeys<TEventMap>>) {
     this.emitLifecycleEvent(Lifecycle.didRemoveListener, event);
     if(this.active && !this.hasListeners) {
       this._active = false;
@@ -523,28 +1453,109 @@ export class Bus<TEventMap extends object = object> implements Scannable<TEventM
 /**
  * @ignore
  */
-function addListener<TKey>(bus: Map<TKey, Set<EventHandlers.GenericHandler>>, event: TKey, handler: EventHandlers.GenericHandler): void {
+interface Invocation<TEventMap extends object> {
+  event: Events.ListenerKey<EventKeys<TEventMap>>;
+  handler: EventHandlers.GenericHandler;
+  // the handler given to the bus, which `handler` may wrap
+  subscriber: EventHandlers.GenericHandler;
+  args: any[];
+  priority: number;
+  options: SubscriptionOptions;
+}
+
+/**
+ * @ignore
+ * An evaluator that resolves with the predicate's result if it is truthy, and rejects with what the predicate throws
+ */
+function toEvaluator<R>(predicate: () => R): Scanner.Evaluator<Truthy<R>> {
+  return (resolve, reject) => {
+    let result: R;
+    try {
+      result = predicate();
+    } catch(e) {
+      reject(e);
+      return;
+    }
+    if(result) {
+      resolve(result as Truthy<R>);
+    }
+  };
+}
+
+/**
+ * @ignore
+ * The handlers subscribed to an event or lifecycle event
+ * @prop subscriptions - how each handler was subscribed
+ * @prop ordered - the handlers in descending order of priority. Handlers of equal priority are kept in the order they were added
+ */
+interface Handlers {
+  subscriptions: Map<EventHandlers.GenericHandler, Subscribed>;
+  ordered: EventHandlers.GenericHandler[];
+}
+
+/**
+ * @ignore
+ * @prop options - the options the handler was subscribed with
+ * @prop subscriber - the handler given to the bus, which the subscribed handler may wrap, e.g. for [[Bus.once]]
+ */
+interface Subscribed {
+  options: SubscriptionOptions;
+  subscriber: EventHandlers.GenericHandler;
+}
+
+/**
+ * @ignore
+ * Insert the handler after the handlers of higher or equal priority, found by binary search. Adding a handler again moves it
+ */
+function addListener<TKey>(
+  bus: Map<TKey, Handlers>,
+  event: TKey,
+  handler: EventHandlers.GenericHandler,
+  options: SubscriptionOptions = {},
+  subscriber: EventHandlers.GenericHandler = handler
+): void {
   if(!handler) {
     return;
   }
-  let set = bus.get(event);
-  if(!set) {
-    set = new Set<EventHandlers.GenericHandler>();
-    bus.set(event, set);
+  const priority = options.priority || 0;
+  let handlers = bus.get(event);
+  if(!handlers) {
+    handlers = {subscriptions: new Map(), ordered: []};
+    bus.set(event, handlers);
+  }
+  const previous = handlers.subscriptions.get(handler);
+  handlers.subscriptions.set(handler, {options, subscriber});
+  if(previous) {
+    // a handler subscribed again keeps its position unless its priority changes
+    if((previous.options.priority || 0) === priority) {
+      return;
+    }
+    handlers.ordered.splice(handlers.ordered.indexOf(handler), 1);
+  }
+  const {ordered} = handlers;
+  let low = 0;
+  let high = ordered.length;
+  while(low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if((handlers.subscriptions.get(ordered[mid]).options.priority || 0) >= priority) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
   }
-  set.add(handler);
+  ordered.splice(low, 0, handler);
 }
 
 /**
  * @ignore
  */
-function removeListener<TKey>(bus: Map<TKey, Set<EventHandlers.GenericHandler>>, event: TKey, handler: EventHandlers.GenericHandler): void {
-  const set = bus.get(event);
-  if(!set) {
+function removeListener<TKey>(bus: Map<TKey, Handlers>, event: TKey, handler: EventHandlers.GenericHandler): void {
+  const handlers = bus.get(event);
+  if(!handlers?.subscriptions.delete(handler)) {
     return;
   }
-  set.delete(handler);
-  if(set.size === 0) {
+  handlers.ordered.splice(handlers.ordered.indexOf(handler), 1);
+  if(handlers.ordered.length === 0) {
     bus.delete(event);
   }
 }
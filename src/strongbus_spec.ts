@@ -2,6 +2,7 @@ import {sleep} from 'jaasync/lib/cancelable';
 
 import * as Strongbus from './';
 import {Scanner} from './scanner';
+import {Logger} from './types/logger';
 import {EventKeys} from './types/utility';
 
 type TestEventMap = {
@@ -10,6 +11,13 @@ type TestEventMap = {
   baz: number;
 };
 
+type NamespacedEventMap = {
+  'user.created': {id: string};
+  'user.deleted': {id: string};
+  'user.address.changed': {street: string};
+  'order.paid': number;
+};
+
 class DelegateTestBus<T extends object = TestEventMap> extends Strongbus.Bus<T> {
   private readonly emulateListenerCount: boolean = false;
   constructor(options: Strongbus.Options & {emulateListenerCount?: boolean}) {
@@ -137,6 +145,131 @@ describe('Strongbus.Bus', () => {
     });
   });
 
+  describe('given a pattern to listen on', () => {
+    let namespacedBus: Strongbus.Bus<NamespacedEventMap>;
+
+    beforeEach(() => {
+      namespacedBus = new Strongbus.Bus<NamespacedEventMap>();
+    });
+
+    it('invokes the handler with event and payload for every event in the namespace, at any depth', () => {
+      const handler: Strongbus.PatternEventHandler<NamespacedEventMap, 'user.*'> = onAnyEvent;
+      namespacedBus.on('user.*', handler);
+
+      namespacedBus.emit('user.created', {id: '1'});
+      namespacedBus.emit('user.address.changed', {street: 'Main'});
+      namespacedBus.emit('order.paid', 5);
+
+      expect(onAnyEvent.calls.allArgs()).toEqual([
+        ['user.created', {id: '1'}],
+        ['user.address.changed', {street: 'Main'}]
+      ]);
+    });
+
+    it('narrows the event type to the events matching the pattern', () => {
+      const events: ('user.created'|'user.deleted'|'user.address.changed')[] = [];
+      // would be a type error if the event type included 'order.paid'
+      namespacedBus.on('user.*', event => events.push(event));
+      // uncomment the following and note the type error, because no events are in the namespace
+      // namespacedBus.on('account.*', () => null);
+
+      namespacedBus.emit('user.deleted', {id: '2'});
+      expect(events).toEqual(['user.deleted']);
+    });
+
+    it('only invokes handlers for nested namespaces for events in that namespace', () => {
+      namespacedBus.on('user.address.*', onAnyEvent);
+
+      namespacedBus.emit('user.created', {id: '1'});
+      namespacedBus.emit('user.address.changed', {street: 'Main'});
+      expect(onAnyEvent.calls.allArgs()).toEqual([['user.address.changed', {street: 'Main'}]]);
+    });
+
+    it('orders pattern handlers by priority, after event handlers and before wildcard handlers of equal priority', () => {
+      const calls: string[] = [];
+      namespacedBus.on('*', () => calls.push('*'));
+      namespacedBus.on('user.*', () => calls.push('user.*'));
+      namespacedBus.on('user.address.*', () => calls.push('user.address.*'));
+      namespacedBus.on('user.address.changed', () => calls.push('user.address.changed'));
+      namespacedBus.on('user.*', () => calls.push('user.* high'), {priority: 1});
+
+      namespacedBus.emit('user.address.changed', {street: 'Main'});
+      expect(calls).toEqual(['user.* high', 'user.address.changed', 'user.address.*', 'user.*', '*']);
+    });
+
+    it('counts the pattern as a listener', () => {
+      const sub = namespacedBus.on('user.*', onAnyEvent);
+      expect(namespacedBus.hasListenersFor('user.*')).toBe(true);
+      expect([...namespacedBus.listeners.keys()]).toEqual(['user.*']);
+
+      sub();
+      expect(namespacedBus.hasListeners).toBe(false);
+    });
+  });
+
+  describe('#once', () => {
+    it('invokes the handler for the first event raised only', () => {
+      bus.once('foo', onTestEvent);
+      bus.emit('foo', 'owl');
+      bus.emit('foo', 'hawk');
+
+      expect(onTestEvent).toHaveBeenCalledTimes(1);
+      expect(onTestEvent).toHaveBeenCalledWith('owl');
+      expect(bus.hasListeners).toBeFalsy();
+    });
+
+    it('can be canceled before an event is delivered', () => {
+      const sub = bus.once('foo', onTestEvent);
+      sub();
+      bus.emit('foo', 'owl');
+
+      expect(onTestEvent).not.toHaveBeenCalled();
+      expect(bus.hasListeners).toBeFalsy();
+    });
+
+    it('triggers removal lifecycle events after delivery', () => {
+      const onWillRemoveListener = jasmine.createSpy('onWillRemoveListener');
+      const onDidRemoveListener = jasmine.createSpy('onDidRemoveListener');
+      const onIdle = jasmine.createSpy('onIdle');
+      bus.hook('willRemoveListener', onWillRemoveListener);
+      bus.hook('didRemoveListener', onDidRemoveListener);
+      bus.hook('idle', onIdle);
+
+      bus.once('foo', onTestEvent);
+      bus.emit('foo', 'owl');
+
+      expect(onWillRemoveListener).toHaveBeenCalledTimes(1);
+      expect(onWillRemoveListener).toHaveBeenCalledWith('foo');
+      expect(onDidRemoveListener).toHaveBeenCalledTimes(1);
+      expect(onDidRemoveListener).toHaveBeenCalledWith('foo');
+      expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+
+    describe('given a list of events', () => {
+      it('removes the handler from every event in the list after the first is raised', () => {
+        bus.once(['foo', 'bar'], onAnyEvent);
+        bus.emit('bar', true);
+        bus.emit('foo', 'owl');
+
+        expect(onAnyEvent).toHaveBeenCalledTimes(1);
+        expect(onAnyEvent).toHaveBeenCalledWith('bar', true);
+        expect(bus.hasListeners).toBeFalsy();
+      });
+    });
+
+    describe('given the wildcard operator', () => {
+      it('removes the handler after the first event is raised', () => {
+        bus.once('*', onEveryEvent);
+        bus.emit('baz', 1);
+        bus.emit('foo', 'owl');
+
+        expect(onEveryEvent).toHaveBeenCalledTimes(1);
+        expect(onEveryEvent).toHaveBeenCalledWith('baz', 1);
+        expect(bus.hasListeners).toBeFalsy();
+      });
+    });
+  });
+
   describe('#any', () => {
     it('adds the same listener for each event given, and the listener receives the event as arg[0]', () => {
       bus.any(['foo', 'bar'], onAnyEvent);
@@ -297,583 +430,1866 @@ describe('Strongbus.Bus', () => {
         expect(bus3.emit).toHaveBeenCalledWith('foo', null);
       });
     });
-  });
 
-  describe('#proxy', () => {
-    it('adds a proxy handler for raised events that receives the event as well as the payload', () => {
-      const proxy = jasmine.createSpy('proxy');
-      bus.on('foo', onTestEvent);
-      bus.every(onEveryEvent);
-      bus.proxy(proxy);
+    describe('given buses with different event maps', () => {
+      let fooBus: Strongbus.Bus<Pick<TestEventMap, 'foo'>>;
+      let barBus: Strongbus.Bus<Pick<TestEventMap, 'bar'|'baz'>>;
 
-      bus.emit('foo', 'cat');
-      expect(onTestEvent).toHaveBeenCalledWith('cat');
-      expect(onEveryEvent).toHaveBeenCalled();
-      expect(proxy).toHaveBeenCalledWith('foo', 'cat');
-      expect(proxy).toHaveBeenCalledTimes(1);
+      beforeEach(() => {
+        fooBus = new Strongbus.Bus<Pick<TestEventMap, 'foo'>>();
+        barBus = new Strongbus.Bus<Pick<TestEventMap, 'bar'|'baz'>>();
+      });
+
+      it('pipes to delegates with a subset of the events', () => {
+        bus.pipe(fooBus);
+        fooBus.on('foo', onTestEvent);
+
+        bus.emit('foo', 'wow!');
+        expect(onTestEvent).toHaveBeenCalledWith('wow!');
+        expect(bus.hasListenersFor('foo')).toBeTrue();
+      });
+
+      describe('.compose', () => {
+        it('creates a bus with the events of each bus, raising them on all of the buses', () => {
+          const composed: Strongbus.Bus<TestEventMap> = Strongbus.Bus.compose(fooBus, barBus);
+          fooBus.on('foo', onTestEvent);
+          barBus.on('baz', onAnyEvent);
+          composed.on('bar', onEveryEvent);
+
+          composed.emit('foo', 'wow!');
+          composed.emit('baz', 1);
+          composed.emit('bar', true);
+
+          expect(onTestEvent).toHaveBeenCalledWith('wow!');
+          expect(onAnyEvent).toHaveBeenCalledWith(1);
+          expect(onEveryEvent).toHaveBeenCalledWith(true);
+          expect(composed.delegates).toEqual([fooBus, barBus]);
+        });
+
+        it('raises each event only on the buses whose event maps have it', () => {
+          const strictBus = new Strongbus.Bus<Pick<TestEventMap, 'bar'|'baz'>>({allowUnhandledEvents: false, events: ['bar', 'baz']});
+          const composed = Strongbus.Bus.compose(fooBus, strictBus);
+          fooBus.on('foo', onTestEvent);
+          strictBus.on('bar', onTestEvent);
+          strictBus.on('*', onAnyEvent);
+
+          expect(() => composed.emit('foo', 'wow!')).not.toThrow();
+          expect(onTestEvent).toHaveBeenCalledWith('wow!');
+          expect(onAnyEvent).not.toHaveBeenCalled();
+
+          composed.emit('bar', true);
+          expect(onAnyEvent).toHaveBeenCalledWith('bar', true);
+        });
+
+        it('raises events on buses that do not declare their events and only have wildcard handlers', () => {
+          const composed = Strongbus.Bus.compose(fooBus, barBus);
+          fooBus.on('*', onEveryEvent);
+
+          expect(composed.emit('foo', 'wow!')).toBeTrue();
+          expect(onEveryEvent).toHaveBeenCalledWith('foo', 'wow!');
+        });
+
+        it('raises events on buses that do not declare their events and have matching pattern handlers', () => {
+          const userBus = new Strongbus.Bus<NamespacedEventMap>();
+          const composed = Strongbus.Bus.compose(fooBus, userBus);
+          userBus.on('user.*', onAnyEvent);
+
+          expect(composed.emit('user.deleted', {id: '1'})).toBeTrue();
+          expect(onAnyEvent).toHaveBeenCalledWith('user.deleted', {id: '1'});
+        });
+
+        it('raises events on buses that do not declare their events and hook willDispatch', () => {
+          const composed = Strongbus.Bus.compose(fooBus, barBus);
+          const onWillDispatch = jasmine.createSpy('onWillDispatch');
+          barBus.hook('willDispatch', onWillDispatch);
+
+          composed.emit('bar', true);
+          expect(onWillDispatch).toHaveBeenCalledWith(jasmine.objectContaining({event: 'bar', payload: true}));
+        });
+
+        it('raises sticky events on the buses that cache them', () => {
+          const stickyBus = new Strongbus.Bus<Pick<TestEventMap, 'bar'|'baz'>>({sticky: ['baz']});
+          const composed = Strongbus.Bus.compose(fooBus, stickyBus);
+
+          composed.emit('baz', 1);
+          expect(stickyBus.last('baz')).toBe(1);
+        });
+
+        it('reflects the listeners of the composed buses', () => {
+          const composed = Strongbus.Bus.compose(fooBus, barBus);
+          const onActive = jasmine.createSpy('onActive');
+          composed.monitor(onActive);
+
+          barBus.on('bar', onTestEvent);
+          expect(composed.hasListenersFor('bar')).toBeTrue();
+          expect(onActive).toHaveBeenCalledWith(true);
+        });
+      });
     });
   });
 
-  describe('#hook', () => {
-    let onWillAddListener: jasmine.Spy;
-    let onWillRemoveListener: jasmine.Spy;
-    let onAddListener: jasmine.Spy;
-    let onRemoveListener: jasmine.Spy;
-    let onWillActivate: jasmine.Spy;
-    let onActive: jasmine.Spy;
-    let onWillIdle: jasmine.Spy;
-    let onIdle: jasmine.Spy;
+  describe('#scope', () => {
+    it('shares handlers with the bus', () => {
+      const scoped: Strongbus.Bus<Pick<TestEventMap, 'foo'>> = bus.scope<'foo'>();
+      scoped.on('foo', onTestEvent);
+      bus.on('foo', onAnyEvent);
 
-    beforeEach(() => {
-      bus.hook('willAddListener', onWillAddListener = jasmine.createSpy('onWillAddListener'));
-      bus.hook('didAddListener', onAddListener = jasmine.createSpy('onAddListener'));
-      bus.hook('willRemoveListener', onWillRemoveListener = jasmine.createSpy('onWillRemoveListener'));
-      bus.hook('didRemoveListener', onRemoveListener = jasmine.createSpy('onRemoveListener'));
-      bus.hook('willActivate', onWillActivate = jasmine.createSpy('onWillActivate'));
-      bus.hook('active', onActive = jasmine.createSpy('onActive'));
-      bus.hook('willIdle', onWillIdle = jasmine.createSpy('onWillIdle'));
-      bus.hook('idle', onIdle = jasmine.createSpy('onIdle'));
+      bus.emit('foo', 'wow!');
+      scoped.emit('foo', 'such scope');
+
+      expect(onTestEvent.calls.allArgs()).toEqual([['wow!'], ['such scope']]);
+      expect(onAnyEvent.calls.allArgs()).toEqual([['wow!'], ['such scope']]);
+      expect(bus.hasListenersFor('foo')).toBeTrue();
     });
 
-    it('allows subscription to meta events', () => {
-      const foosub = bus.on('foo', onTestEvent);
-      expect(onWillAddListener).toHaveBeenCalledWith('foo');
-      expect(onAddListener).toHaveBeenCalledWith('foo');
-      expect(onWillActivate).toHaveBeenCalled();
-      expect(onActive).toHaveBeenCalled();
+    it('shares the bus\'s lifecycle', () => {
+      const scoped = bus.scope<'foo'|'bar'>();
+      const onActive = jasmine.createSpy('onActive');
+      scoped.monitor(onActive);
 
-      foosub();
-      expect(onWillRemoveListener).toHaveBeenCalledWith('foo');
-      expect(onRemoveListener).toHaveBeenCalledWith('foo');
-      expect(onIdle).toHaveBeenCalled();
+      bus.on('baz', onTestEvent);
+      expect(onActive).toHaveBeenCalledWith(true);
     });
+  });
 
-    it('only raises "willActivate" and "active" events when the bus goes from 0 to 1 listeners', () => {
-      expect(bus.hasListeners).toBeFalsy();
-      bus.on('foo', onTestEvent);
-      expect(onWillActivate).toHaveBeenCalled();
-      expect(onActive).toHaveBeenCalledTimes(1);
-      expect(bus.hasListeners).toBeTruthy();
+  describe('subscription priority', () => {
+    let calls: string[];
+    const handler = (name: string) => () => { calls.push(name); };
 
-      bus.on('bar', onTestEvent);
-      expect(onWillActivate).toHaveBeenCalledTimes(1);
-      expect(onActive).toHaveBeenCalledTimes(1);
+    beforeEach(() => {
+      calls = [];
     });
 
-    it('only raises "willIdle" and "idle" events when the bus goes from 1 to 0 listeners', () => {
-      expect(bus.hasListeners).toBeFalsy();
-      const foosub = bus.on('foo', onTestEvent);
-      const barsub = bus.on('bar', onTestEvent);
-      expect(onWillIdle).toHaveBeenCalledTimes(0);
-      expect(onIdle).toHaveBeenCalledTimes(0);
+    it('invokes handlers with higher priority first, and handlers of equal priority in subscription order', () => {
+      bus.on('foo', handler('default'));
+      bus.on('foo', handler('low'), {priority: -1});
+      bus.on('foo', handler('high'), {priority: 10});
+      bus.on('foo', handler('high2'), {priority: 10});
+      bus.on('foo', handler('default2'));
 
-      barsub();
-      expect(onWillIdle).toHaveBeenCalledTimes(0);
-      expect(onIdle).toHaveBeenCalledTimes(0);
-      foosub();
-      expect(onWillIdle).toHaveBeenCalledTimes(1);
-      expect(onIdle).toHaveBeenCalledTimes(1);
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual(['high', 'high2', 'default', 'default2', 'low']);
+    });
 
-      foosub();
-      expect(onWillIdle).toHaveBeenCalledTimes(1);
-      expect(onIdle).toHaveBeenCalledTimes(1);
+    it('keeps the position of a handler subscribed again with the same priority', () => {
+      const first = handler('first');
+      bus.on('foo', first);
+      bus.on('foo', handler('second'));
+      bus.on('foo', first);
+
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual(['first', 'second']);
     });
 
-    describe('given bus has delegates', () => {
-      let delegate: DelegateTestBus;
-      let onDelegateWillAddListener: jasmine.Spy;
-      let onDelegateDidAddListener: jasmine.Spy;
-      let onDelegateWillRemoveListener: jasmine.Spy;
-      let onDelegateDidRemoveListener: jasmine.Spy;
-      let onDelegateWillActivate: jasmine.Spy;
-      let onDelegateActive: jasmine.Spy;
-      let onDelegateWillIdle: jasmine.Spy;
-      let onDelegateIdle: jasmine.Spy;
+    it('moves a handler subscribed again to its new priority', () => {
+      const moved = handler('moved');
+      bus.on('foo', moved, {priority: 10});
+      bus.on('foo', handler('default'));
+      bus.on('foo', moved, {priority: -1});
 
-      beforeEach(() => {
-        delegate = new DelegateTestBus({});
-        bus.pipe(delegate);
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual(['default', 'moved']);
+    });
 
-        delegate.hook('willAddListener', onDelegateWillAddListener = jasmine.createSpy('onDelegateWillAddListener'));
-        delegate.hook('didAddListener', onDelegateDidAddListener = jasmine.createSpy('onDelegateDidAddListener'));
-        delegate.hook('willRemoveListener', onDelegateWillRemoveListener = jasmine.createSpy('onDelegateWillRemoveListener'));
-        delegate.hook('didRemoveListener', onDelegateDidRemoveListener = jasmine.createSpy('onDelegateDidRemoveListener'));
-        delegate.hook('willActivate', onDelegateWillActivate = jasmine.createSpy('onDelegateWillActivate'));
-        delegate.hook('active', onDelegateActive = jasmine.createSpy('onDelegateActive'));
-        delegate.hook('willIdle', onDelegateWillIdle = jasmine.createSpy('onDelegateWillIdle'));
-        delegate.hook('idle', onDelegateIdle = jasmine.createSpy('onDelegateIdle'));
-      });
+    it('does not invoke handlers subscribed during dispatch', () => {
+      bus.on('foo', () => bus.on('foo', handler('added'), {priority: -1}), {priority: 1});
 
-      it('bubbles events from delegates', () => {
-        const sub = delegate.on('foo', onTestEvent);
-        expect(onDelegateWillAddListener).toHaveBeenCalledWith('foo');
-        expect(onWillAddListener).toHaveBeenCalledWith('foo');
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual([]);
+    });
 
-        expect(onDelegateDidAddListener).toHaveBeenCalledWith('foo');
-        expect(onAddListener).toHaveBeenCalledWith('foo');
+    it('orders wildcard handlers alongside event handlers, after event handlers of equal priority', () => {
+      bus.on('*', handler('*high'), {priority: 5});
+      bus.on('*', handler('*default'));
+      bus.on('foo', handler('default'));
+      bus.any(['foo', 'bar'], handler('anyHigh'), {priority: 5});
 
-        expect(onDelegateWillActivate).toHaveBeenCalled();
-        expect(onWillActivate).toHaveBeenCalled();
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual(['anyHigh', '*high', 'default', '*default']);
+    });
 
-        expect(onDelegateActive).toHaveBeenCalled();
-        expect(onActive).toHaveBeenCalled();
+    it('invokes delegate handlers after all of the bus\'s own handlers', () => {
+      const delegate = new Strongbus.Bus<TestEventMap>();
+      bus.pipe(delegate);
+      delegate.on('foo', handler('delegate'), {priority: 100});
+      bus.on('foo', handler('low'), {priority: -100});
 
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual(['low', 'delegate']);
+    });
 
-        sub.unsubscribe();
-        expect(onDelegateWillRemoveListener).toHaveBeenCalledWith('foo');
-        expect(onRemoveListener).toHaveBeenCalledWith('foo');
+    it('does not invoke handlers unsubscribed by a higher priority handler during dispatch', () => {
+      const lowSub = bus.on('foo', handler('low'));
+      bus.on('foo', () => lowSub(), {priority: 1});
 
-        expect(onDelegateDidRemoveListener).toHaveBeenCalledWith('foo');
-        expect(onRemoveListener).toHaveBeenCalledWith('foo');
+      bus.emit('foo', 'gecko');
+      expect(calls).toEqual([]);
+    });
+  });
 
-        expect(onDelegateWillIdle).toHaveBeenCalled();
-        expect(onWillIdle).toHaveBeenCalled();
+  describe('options.dispatch', () => {
+    let onError: jasmine.Spy;
 
-        expect(onDelegateIdle).toHaveBeenCalled();
-        expect(onIdle).toHaveBeenCalled();
+    describe('given dispatch is "sync"', () => {
+      beforeEach(() => {
+        bus = new Strongbus.Bus<TestEventMap>({dispatch: 'sync'});
+        bus.hook('error', onError = jasmine.createSpy('onError'));
       });
 
+      it('raises handler errors before #emit returns', () => {
+        const error = new Error('sync failure');
+        bus.on('foo', () => { throw error; });
+        bus.emit('foo', 'bear');
 
-      it('raises "active" events independently of delegates', () => {
-        expect(onActive).toHaveBeenCalledTimes(0);
-        expect(onDelegateActive).toHaveBeenCalledTimes(0);
-        bus.on('foo', onTestEvent);
-        expect(onActive).toHaveBeenCalledTimes(1);
-        expect(onDelegateActive).toHaveBeenCalledTimes(0);
-        delegate.on('foo', onTestEvent);
-        expect(onDelegateActive).toHaveBeenCalledTimes(1);
-        expect(onActive).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledWith({error, event: 'foo'});
       });
 
-      it('raises "idle" events independently of delegates', () => {
-        const foosub = bus.on('foo', onTestEvent);
-        const fooSub2 = delegate.on('foo', onTestEvent);
-
-        fooSub2.unsubscribe();
-        expect(onDelegateIdle).toHaveBeenCalledTimes(1);
-        onDelegateIdle.calls.reset();
-        expect(onIdle).toHaveBeenCalledTimes(0);
+      it('raises rejections from async handlers', async () => {
+        const error = new Error('async failure');
+        bus.on('foo', async () => { throw error; });
+        bus.emit('foo', 'bear');
+        await sleep(1);
 
-        foosub.unsubscribe();
-        expect(onDelegateIdle).toHaveBeenCalledTimes(0);
-        expect(onIdle).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledWith({error, event: 'foo'});
       });
     });
   });
 
-  describe('#monitor', () => {
-    let handleActiveChange: jasmine.Spy;
+  describe('#emitCancelable', () => {
+    it('passes an EventContext to handlers as the last argument', () => {
+      bus.on('foo', onTestEvent);
+      bus.on(['foo', 'bar'], onAnyEvent);
+      bus.on('*', onEveryEvent);
+      bus.emitCancelable('foo', 'moth');
 
-    beforeEach(() => {
-      bus.monitor(handleActiveChange = jasmine.createSpy('handleActiveChange'));
+      expect(onTestEvent).toHaveBeenCalledWith('moth', jasmine.objectContaining({defaultPrevented: false}));
+      expect(onAnyEvent).toHaveBeenCalledWith('foo', 'moth', jasmine.objectContaining({defaultPrevented: false}));
+      expect(onEveryEvent).toHaveBeenCalledWith('foo', 'moth', jasmine.objectContaining({defaultPrevented: false}));
     });
 
-    describe('given the bus goes from 0 to 1 listeners', () => {
-      it('invokes a callback with `true`', () => {
-        bus.on('foo', onTestEvent);
-        expect(handleActiveChange).toHaveBeenCalledWith(true);
-      });
+    it('reports the event as canceled when a handler prevents default', () => {
+      bus.on('foo', (payload, context) => context.preventDefault());
+      bus.on('foo', onTestEvent);
+
+      expect(bus.emitCancelable('foo', 'moth')).toEqual({handled: true, defaultPrevented: true, propagationStopped: false});
+      expect(onTestEvent).toHaveBeenCalled();
     });
 
-    describe('given the bus goes from 1 to 0 listeners', () => {
-      it('invokes a callback with `false`', () => {
-        const foosub = bus.on('foo', onTestEvent);
-        expect(handleActiveChange).toHaveBeenCalledWith(true);
-        foosub();
-        expect(handleActiveChange).toHaveBeenCalledWith(false);
-      });
+    it('reports the event as handled but not canceled when no handler prevents default', () => {
+      bus.on('foo', onTestEvent);
+      expect(bus.emitCancelable('foo', 'moth')).toEqual({handled: true, defaultPrevented: false, propagationStopped: false});
     });
-  });
 
-  describe('#hasListeners', () => {
-    describe('given there are any event listeners on the instance', () => {
-      it('returns true', () => {
-        bus.every(onEveryEvent);
-        expect(bus.hasListeners).toBeTruthy();
+    describe('given a handler stops propagation', () => {
+      it('does not invoke lower priority handlers, wildcard handlers or delegates', () => {
+        const delegate = new Strongbus.Bus<TestEventMap>();
+        const onDelegateEvent = jasmine.createSpy('onDelegateEvent');
+        bus.pipe(delegate);
+        delegate.on('foo', onDelegateEvent);
+        bus.on('foo', onTestEvent);
+        bus.on('*', onEveryEvent);
+        bus.on('foo', (payload, context) => context.stopPropagation(), {priority: 1});
+
+        const result = bus.emitCancelable('foo', 'moth');
+        expect(result.propagationStopped).toBe(true);
+        expect(onTestEvent).not.toHaveBeenCalled();
+        expect(onEveryEvent).not.toHaveBeenCalled();
+        expect(onDelegateEvent).not.toHaveBeenCalled();
       });
     });
 
-    describe('given there are no listeners registered with the instance', () => {
-      it('returns false', () => {
-        expect(bus.hasListeners).toBeFalsy();
+    describe('given a delegate handler prevents default', () => {
+      it('reports the event as canceled', () => {
+        const delegate = new Strongbus.Bus<TestEventMap>();
+        bus.pipe(delegate);
+        delegate.on('foo', (payload, context) => context.preventDefault());
+
+        expect(bus.emitCancelable('foo', 'moth').defaultPrevented).toBe(true);
       });
     });
-  });
 
-  describe('#listeners', () => {
+    describe('given delegates', () => {
+      it('raises the event on them as #emit does', () => {
+        const strictDelegate = new Strongbus.Bus<TestEventMap>({allowUnhandledEvents: false});
+        const delegate = new Strongbus.Bus<TestEventMap>();
+        const tracer = new Strongbus.RecordingTracer();
+        const tracedDelegate = new Strongbus.Bus<TestEventMap>({tracer});
+        bus.pipe(delegate);
+        bus.pipe(tracedDelegate);
+        delegate.on('foo', onTestEvent);
+
+        bus.emitCancelable('foo', 'moth');
+        expect(delegate.metrics().foo.emits).toBe(1);
+        expect(tracer.spans.map(s => s.name)).toContain('emit foo');
+
+        bus.pipe(strictDelegate);
+        expect(() => bus.emitCancelable('foo', 'moth')).toThrowError(/foo/);
+      });
+    });
+  });
+
+  describe('#emitAsync', () => {
+    let calls: string[];
+    const handler = (name: string, ms: number) => async () => {
+      await sleep(ms);
+      calls.push(name);
+    };
+
+    beforeEach(() => {
+      calls = [];
+    });
+
+    it('resolves after all handlers, wildcard handlers and delegate handlers have settled', async () => {
+      const delegate = new Strongbus.Bus<TestEventMap>();
+      bus.pipe(delegate);
+      bus.on('foo', handler('foo', 5));
+      bus.on('*', handler('*', 5));
+      delegate.on('foo', handler('delegate', 5));
+
+      const result = await bus.emitAsync('foo', 'lynx');
+
+      expect(calls.sort()).toEqual(['*', 'delegate', 'foo']);
+      expect(result).toEqual({handled: true, errors: [], intercepted: false});
+    });
+
+    it('reports which handlers threw', async () => {
+      const error = new Error('failure');
+      const failing = () => { throw error; };
+      bus.on('foo', onTestEvent);
+      bus.on('foo', failing);
+
+      const result = await bus.emitAsync('foo', 'lynx');
+
+      expect(onTestEvent).toHaveBeenCalledWith('lynx');
+      expect(result.handled).toBe(true);
+      expect(result.errors).toEqual([{event: 'foo', handler: failing, error}]);
+    });
+
+    it('reports the handlers given to #any and #once that threw', async () => {
+      const error = new Error('failure');
+      const failingAny = () => { throw error; };
+      const failingOnce = () => { throw error; };
+      bus.any(['foo', 'bar'], failingAny);
+      bus.once('foo', failingOnce);
+
+      const result = await bus.emitAsync('foo', 'lynx');
+      expect(result.errors.map(e => e.handler)).toEqual([failingAny, failingOnce]);
+    });
+
+    it('resolves handled=false when there are no handlers', async () => {
+      const result = await bus.emitAsync('foo', 'lynx');
+      expect(result).toEqual({handled: false, errors: [], intercepted: false});
+    });
+
+    describe('given dispatch is "sync"', () => {
+      it('awaits each handler before invoking the next', async () => {
+        bus = new Strongbus.Bus<TestEventMap>({dispatch: 'sync'});
+        bus.on('foo', handler('slow', 10));
+        bus.on('foo', handler('fast', 1));
+
+        await bus.emitAsync('foo', 'lynx');
+        expect(calls).toEqual(['slow', 'fast']);
+      });
+    });
+
+    describe('given dispatch is "async"', () => {
+      it('awaits handlers in parallel', async () => {
+        bus.on('foo', handler('slow', 10));
+        bus.on('foo', handler('fast', 1));
+
+        await bus.emitAsync('foo', 'lynx');
+        expect(calls).toEqual(['fast', 'slow']);
+      });
+    });
+  });
+
+  describe('options.errorPolicy', () => {
+    const error = new Error('oops');
+    const failing = () => {
+      throw error;
+    };
+
+    it('swallows handler errors by default, raising Lifecycle.error and Lifecycle.deadLetter', () => {
+      const onError = jasmine.createSpy('onError');
+      const onDeadLetter = jasmine.createSpy('onDeadLetter');
+      bus.hook(Strongbus.Lifecycle.error, onError);
+      bus.hook(Strongbus.Lifecycle.deadLetter, onDeadLetter);
+      bus.on('foo', failing);
+
+      expect(() => bus.emit('foo', 'lynx')).not.toThrow();
+      expect(onError).toHaveBeenCalledWith({error, event: 'foo'});
+      expect(onDeadLetter).toHaveBeenCalledWith({event: 'foo', payload: 'lynx', handler: failing, error});
+    });
+
+    it('reports the handler given to #any, #on with a list of events and #once in dead letters', () => {
+      const onDeadLetter = jasmine.createSpy('onDeadLetter');
+      bus.hook(Strongbus.Lifecycle.deadLetter, onDeadLetter);
+      const failingAny = () => { throw error; };
+      const failingList = () => { throw error; };
+      const failingOnce = () => { throw error; };
+      bus.any(['foo'], failingAny);
+      bus.on(['foo', 'bar'], failingList);
+      bus.once('foo', failingOnce);
+
+      bus.emit('foo', 'lynx');
+      expect(onDeadLetter.calls.allArgs().map(([deadLetter]) => deadLetter.handler)).toEqual([failingAny, failingList, failingOnce]);
+    });
+
+    it('logs handler errors given "log"', () => {
+      const logger = jasmine.createSpyObj('logger', ['info', 'warn', 'error']);
+      bus = new Strongbus.Bus<TestEventMap>({name: 'Test', logger, errorPolicy: 'log'});
+      bus.on('foo', failing);
+
+      bus.emit('foo', 'lynx');
+      expect(logger.error).toHaveBeenCalledWith('Test Bus handler for "foo" failed', error);
+    });
+
+    it('rethrows handler errors once all handlers are invoked given "throw"', () => {
+      bus = new Strongbus.Bus<TestEventMap>({errorPolicy: 'throw', dispatch: 'sync'});
+      bus.on('foo', failing);
+      bus.on('foo', onTestEvent);
+
+      expect(() => bus.emit('foo', 'lynx')).toThrow(error);
+      expect(onTestEvent).toHaveBeenCalled();
+    });
+
+    it('rethrows errors of handlers that reject after the event is raised asynchronously given "throw"', async () => {
+      jasmine.clock().install();
+      try {
+        bus = new Strongbus.Bus<TestEventMap>({errorPolicy: 'throw'});
+        bus.on('foo', async () => {
+          await null;
+          throw error;
+        });
+
+        expect(() => bus.emit('foo', 'lynx')).not.toThrow();
+        for(let i = 0; i < 5; i++) {
+          await null;
+        }
+        expect(() => jasmine.clock().tick(1)).toThrow(error);
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+
+    it('rejects #emitAsync once all handlers settle given "throw"', async () => {
+      bus = new Strongbus.Bus<TestEventMap>({errorPolicy: 'throw'});
+      bus.on('foo', async () => {
+        await sleep(1);
+        throw error;
+      });
+      bus.on('foo', onTestEvent);
+
+      await expectAsync(bus.emitAsync('foo', 'lynx')).toBeRejectedWith(error);
+      expect(onTestEvent).toHaveBeenCalled();
+    });
+
+    it('rethrows handler errors asynchronously given "rethrowAsync"', () => {
+      jasmine.clock().install();
+      try {
+        bus = new Strongbus.Bus<TestEventMap>({errorPolicy: 'rethrowAsync'});
+        bus.on('foo', failing);
+
+        expect(() => bus.emit('foo', 'lynx')).not.toThrow();
+        expect(() => jasmine.clock().tick(1)).toThrow(error);
+      } finally {
+        jasmine.clock().uninstall();
+      }
+    });
+
+    it('invokes a custom policy with the dead letter', () => {
+      const policy = jasmine.createSpy('policy');
+      bus = new Strongbus.Bus<TestEventMap>({errorPolicy: policy});
+      bus.on('foo', failing);
+
+      bus.emit('foo', 'lynx');
+      expect(policy).toHaveBeenCalledWith({event: 'foo', payload: 'lynx', handler: failing, error});
+    });
+
+    it('may be overridden per subscription', () => {
+      const policy = jasmine.createSpy('policy');
+      bus = new Strongbus.Bus<TestEventMap>({errorPolicy: 'throw'});
+      bus.on('foo', failing, {errorPolicy: policy});
+
+      expect(() => bus.emit('foo', 'lynx')).not.toThrow();
+      expect(policy).toHaveBeenCalled();
+    });
+
+    it('logs errors thrown by a custom policy for async handlers', async () => {
+      const logger = jasmine.createSpyObj('logger', ['info', 'warn', 'error']);
+      const policyError = new Error('policy failed');
+      bus = new Strongbus.Bus<TestEventMap>({name: 'Test', logger, errorPolicy: () => {
+        throw policyError;
+      }});
+      bus.on('foo', async () => failing());
+
+      bus.emit('foo', 'lynx');
+      await new Promise(resolve => setTimeout(resolve));
+      expect(logger.error).toHaveBeenCalledWith('Test Bus error policy failed', policyError);
+    });
+
+    describe('given a subscription with options.retry', () => {
+      let attempts: number;
+      let onDeadLetter: jasmine.Spy;
+      const flaky = (failures: number) => async () => {
+        if(++attempts <= failures) {
+          throw error;
+        }
+        onTestEvent();
+      };
+
+      beforeEach(() => {
+        attempts = 0;
+        onDeadLetter = jasmine.createSpy('onDeadLetter');
+        bus.hook(Strongbus.Lifecycle.deadLetter, onDeadLetter);
+      });
+
+      it('retries the handler until it succeeds', async () => {
+        bus.on('foo', flaky(2), {retry: {retryInterval: 1}});
+
+        bus.emit('foo', 'lynx');
+        await sleep(20);
+        expect(attempts).toBe(3);
+        expect(onTestEvent).toHaveBeenCalled();
+        expect(onDeadLetter).not.toHaveBeenCalled();
+      });
+
+      it('reports the error once retries are exhausted', async () => {
+        bus.on('foo', flaky(Infinity), {retry: {retryInterval: 1, maxRetryAttempts: 2}});
+
+        bus.emit('foo', 'lynx');
+        await sleep(20);
+        expect(attempts).toBe(3);
+        expect(onDeadLetter).toHaveBeenCalledTimes(1);
+      });
+
+      it('retries synchronous handlers, reporting their errors asynchronously', async () => {
+        const failingSync = () => {
+          attempts++;
+          throw error;
+        };
+        bus.on('foo', failingSync, {retry: {retryInterval: 1, maxRetryAttempts: 1}});
+
+        bus.emit('foo', 'lynx');
+        expect(onDeadLetter).not.toHaveBeenCalled();
+        await sleep(20);
+        expect(attempts).toBe(2);
+        expect(onDeadLetter).toHaveBeenCalledTimes(1);
+      });
+
+      it('retries the handler when awaited with #emitAsync', async () => {
+        bus.on('foo', flaky(1), {retry: {retryInterval: 1}});
+
+        const {errors} = await bus.emitAsync('foo', 'lynx');
+        expect(errors).toEqual([]);
+        expect(onTestEvent).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('handler timeouts', () => {
+    let onTimeout: jasmine.Spy;
+    const slow = async function slowHandler() {
+      await sleep(20);
+    };
+
+    beforeEach(() => {
+      onTimeout = jasmine.createSpy('onTimeout');
+    });
+
+    it('raises Lifecycle.handlerTimeout when a handler exceeds options.handlerTimeout', async () => {
+      bus = new Strongbus.Bus<TestEventMap>({handlerTimeout: 5});
+      bus.hook(Strongbus.Lifecycle.handlerTimeout, onTimeout);
+      bus.on('foo', slow);
+
+      bus.emit('foo', 'lynx');
+      await sleep(10);
+      expect(onTimeout).toHaveBeenCalledWith({event: 'foo', handler: slow, timeout: 5});
+    });
+
+    it('fails the handler, so #emitAsync does not wait for it', async () => {
+      bus = new Strongbus.Bus<TestEventMap>({handlerTimeout: 5});
+      bus.on('foo', async () => {
+        await new Promise(() => null);
+      });
+
+      const {errors} = await bus.emitAsync('foo', 'lynx');
+      expect(errors.length).toBe(1);
+      expect(errors[0].error.message).toBe('Timeout expired after 5 milliseconds');
+    });
+
+    it('may be overridden per subscription', async () => {
+      bus = new Strongbus.Bus<TestEventMap>({handlerTimeout: 5});
+      bus.hook(Strongbus.Lifecycle.handlerTimeout, onTimeout);
+      bus.on('foo', slow, {timeout: 50});
+
+      await bus.emitAsync('foo', 'lynx');
+      expect(onTimeout).not.toHaveBeenCalled();
+    });
+
+    it('does not time out handlers that settle in time', async () => {
+      bus = new Strongbus.Bus<TestEventMap>({handlerTimeout: 50});
+      bus.hook(Strongbus.Lifecycle.handlerTimeout, onTimeout);
+      bus.on('foo', slow);
+
+      const {errors} = await bus.emitAsync('foo', 'lynx');
+      expect(errors).toEqual([]);
+      expect(onTimeout).not.toHaveBeenCalled();
+    });
+
+    describe('given options.slowHandlerThreshold', () => {
+      let logger: jasmine.SpyObj<Logger>;
+
+      beforeEach(() => {
+        logger = jasmine.createSpyObj('logger', ['info', 'warn', 'error']);
+        bus = new Strongbus.Bus<TestEventMap>({name: 'Test', logger, slowHandlerThreshold: 5});
+      });
+
+      it('logs handlers that take longer to settle', async () => {
+        bus.on('foo', slow);
+
+        await bus.emitAsync('foo', 'lynx');
+        expect(logger.warn).toHaveBeenCalledTimes(1);
+        expect(logger.warn.calls.mostRecent().args[0])
+          .toMatch(/^Slow handler. Test Bus handler "slowHandler" for "foo" took \d+ms, exceeds threshold set to 5$/);
+      });
+
+      it('logs the names of handlers given to #any and #once', async () => {
+        bus.any(['foo', 'bar'], async function slowOne() { await sleep(10); });
+        bus.once('foo', async function slowTwo() { await sleep(10); });
+
+        await bus.emitAsync('foo', 'lynx');
+        const logged = logger.warn.calls.allArgs().map(([message]) => message);
+        expect(logged).toEqual([jasmine.stringMatching(/handler "slowOne"/), jasmine.stringMatching(/handler "slowTwo"/)]);
+      });
+
+      it('does not log handlers that settle quickly', async () => {
+        bus.on('foo', async () => null);
+
+        await bus.emitAsync('foo', 'lynx');
+        expect(logger.warn).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('#proxy', () => {
+    it('adds a proxy handler for raised events that receives the event as well as the payload', () => {
+      const proxy = jasmine.createSpy('proxy');
+      bus.on('foo', onTestEvent);
+      bus.every(onEveryEvent);
+      bus.proxy(proxy);
+
+      bus.emit('foo', 'cat');
+      expect(onTestEvent).toHaveBeenCalledWith('cat');
+      expect(onEveryEvent).toHaveBeenCalled();
+      expect(proxy).toHaveBeenCalledWith('foo', 'cat');
+      expect(proxy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('#hook', () => {
+    let onWillAddListener: jasmine.Spy;
+    let onWillRemoveListener: jasmine.Spy;
+    let onAddListener: jasmine.Spy;
+    let onRemoveListener: jasmine.Spy;
+    let onWillActivate: jasmine.Spy;
+    let onActive: jasmine.Spy;
+    let onWillIdle: jasmine.Spy;
+    let onIdle: jasmine.Spy;
+
+    beforeEach(() => {
+      bus.hook('willAddListener', onWillAddListener = jasmine.createSpy('onWillAddListener'));
+      bus.hook('didAddListener', onAddListener = jasmine.createSpy('onAddListener'));
+      bus.hook('willRemoveListener', onWillRemoveListener = jasmine.createSpy('onWillRemoveListener'));
+      bus.hook('didRemoveListener', onRemoveListener = jasmine.createSpy('onRemoveListener'));
+      bus.hook('willActivate', onWillActivate = jasmine.createSpy('onWillActivate'));
+      bus.hook('active', onActive = jasmine.createSpy('onActive'));
+      bus.hook('willIdle', onWillIdle = jasmine.createSpy('onWillIdle'));
+      bus.hook('idle', onIdle = jasmine.createSpy('onIdle'));
+    });
+
+    it('allows subscription to meta events', () => {
+      const foosub = bus.on('foo', onTestEvent);
+      expect(onWillAddListener).toHaveBeenCalledWith('foo');
+      expect(onAddListener).toHaveBeenCalledWith('foo');
+      expect(onWillActivate).toHaveBeenCalled();
+      expect(onActive).toHaveBeenCalled();
+
+      foosub();
+      expect(onWillRemoveListener).toHaveBeenCalledWith('foo');
+      expect(onRemoveListener).toHaveBeenCalledWith('foo');
+      expect(onIdle).toHaveBeenCalled();
+    });
+
+    it('only raises "willActivate" and "active" events when the bus goes from 0 to 1 listeners', () => {
+      expect(bus.hasListeners).toBeFalsy();
+      bus.on('foo', onTestEvent);
+      expect(onWillActivate).toHaveBeenCalled();
+      expect(onActive).toHaveBeenCalledTimes(1);
+      expect(bus.hasListeners).toBeTruthy();
+
+      bus.on('bar', onTestEvent);
+      expect(onWillActivate).toHaveBeenCalledTimes(1);
+      expect(onActive).toHaveBeenCalledTimes(1);
+    });
+
+    it('only raises "willIdle" and "idle" events when the bus goes from 1 to 0 listeners', () => {
+      expect(bus.hasListeners).toBeFalsy();
+      const foosub = bus.on('foo', onTestEvent);
+      const barsub = bus.on('bar', onTestEvent);
+      expect(onWillIdle).toHaveBeenCalledTimes(0);
+      expect(onIdle).toHaveBeenCalledTimes(0);
+
+      barsub();
+      expect(onWillIdle).toHaveBeenCalledTimes(0);
+      expect(onIdle).toHaveBeenCalledTimes(0);
+      foosub();
+      expect(onWillIdle).toHaveBeenCalledTimes(1);
+      expect(onIdle).toHaveBeenCalledTimes(1);
+
+      foosub();
+      expect(onWillIdle).toHaveBeenCalledTimes(1);
+      expect(onIdle).toHaveBeenCalledTimes(1);
+    });
+
+    it('raises "willDispatch" as each event is dispatched, marking events forwarded by piping buses', () => {
+      const delegate = bus.pipe(new Strongbus.Bus<TestEventMap>());
+      const onWillDispatch = jasmine.createSpy('onWillDispatch');
+      const onDelegateWillDispatch = jasmine.createSpy('onDelegateWillDispatch');
+      bus.hook('willDispatch', onWillDispatch);
+      delegate.hook('willDispatch', onDelegateWillDispatch);
+      delegate.on('foo', onTestEvent);
+
+      bus.emit('foo', 'one');
+      expect(onWillDispatch).toHaveBeenCalledWith({event: 'foo', payload: 'one', forwarded: false, handled: true});
+      expect(onDelegateWillDispatch).toHaveBeenCalledWith({event: 'foo', payload: 'one', forwarded: true, handled: true});
+      expect(bus.delegates).toEqual([delegate]);
+    });
+
+    describe('given bus has delegates', () => {
+      let delegate: DelegateTestBus;
+      let onDelegateWillAddListener: jasmine.Spy;
+      let onDelegateDidAddListener: jasmine.Spy;
+      let onDelegateWillRemoveListener: jasmine.Spy;
+      let onDelegateDidRemoveListener: jasmine.Spy;
+      let onDelegateWillActivate: jasmine.Spy;
+      let onDelegateActive: jasmine.Spy;
+      let onDelegateWillIdle: jasmine.Spy;
+      let onDelegateIdle: jasmine.Spy;
+
+      beforeEach(() => {
+        delegate = new DelegateTestBus({});
+        bus.pipe(delegate);
+
+        delegate.hook('willAddListener', onDelegateWillAddListener = jasmine.createSpy('onDelegateWillAddListener'));
+        delegate.hook('didAddListener', onDelegateDidAddListener = jasmine.createSpy('onDelegateDidAddListener'));
+        delegate.hook('willRemoveListener', onDelegateWillRemoveListener = jasmine.createSpy('onDelegateWillRemoveListener'));
+        delegate.hook('didRemoveListener', onDelegateDidRemoveListener = jasmine.createSpy('onDelegateDidRemoveListener'));
+        delegate.hook('willActivate', onDelegateWillActivate = jasmine.createSpy('onDelegateWillActivate'));
+        delegate.hook('active', onDelegateActive = jasmine.createSpy('onDelegateActive'));
+        delegate.hook('willIdle', onDelegateWillIdle = jasmine.createSpy('onDelegateWillIdle'));
+        delegate.hook('idle', onDelegateIdle = jasmine.createSpy('onDelegateIdle'));
+      });
+
+      it('bubbles events from delegates', () => {
+        const sub = delegate.on('foo', onTestEvent);
+        expect(onDelegateWillAddListener).toHaveBeenCalledWith('foo');
+        expect(onWillAddListener).toHaveBeenCalledWith('foo');
+
+        expect(onDelegateDidAddListener).toHaveBeenCalledWith('foo');
+        expect(onAddListener).toHaveBeenCalledWith('foo');
+
+        expect(onDelegateWillActivate).toHaveBeenCalled();
+        expect(onWillActivate).toHaveBeenCalled();
+
+        expect(onDelegateActive).toHaveBeenCalled();
+        expect(onActive).toHaveBeenCalled();
+
+
+        sub.unsubscribe();
+        expect(onDelegateWillRemoveListener).toHaveBeenCalledWith('foo');
+        expect(onRemoveListener).toHaveBeenCalledWith('foo');
+
+        expect(onDelegateDidRemoveListener).toHaveBeenCalledWith('foo');
+        expect(onRemoveListener).toHaveBeenCalledWith('foo');
+
+        expect(onDelegateWillIdle).toHaveBeenCalled();
+        expect(onWillIdle).toHaveBeenCalled();
+
+        expect(onDelegateIdle).toHaveBeenCalled();
+        expect(onIdle).toHaveBeenCalled();
+      });
+
+
+      it('raises "active" events independently of delegates', () => {
+        expect(onActive).toHaveBeenCalledTimes(0);
+        expect(onDelegateActive).toHaveBeenCalledTimes(0);
+        bus.on('foo', onTestEvent);
+        expect(onActive).toHaveBeenCalledTimes(1);
+        expect(onDelegateActive).toHaveBeenCalledTimes(0);
+        delegate.on('foo', onTestEvent);
+        expect(onDelegateActive).toHaveBeenCalledTimes(1);
+        expect(onActive).toHaveBeenCalledTimes(1);
+      });
+
+      it('raises "idle" events independently of delegates', () => {
+        const foosub = bus.on('foo', onTestEvent);
+        const fooSub2 = delegate.on('foo', onTestEvent);
+
+        fooSub2.unsubscribe();
+        expect(onDelegateIdle).toHaveBeenCalledTimes(1);
+        onDelegateIdle.calls.reset();
+        expect(onIdle).toHaveBeenCalledTimes(0);
+
+        foosub.unsubscribe();
+        expect(onDelegateIdle).toHaveBeenCalledTimes(0);
+        expect(onIdle).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('#monitor', () => {
+    let handleActiveChange: jasmine.Spy;
+
+    beforeEach(() => {
+      bus.monitor(handleActiveChange = jasmine.createSpy('handleActiveChange'));
+    });
+
+    describe('given the bus goes from 0 to 1 listeners', () => {
+      it('invokes a callback with `true`', () => {
+        bus.on('foo', onTestEvent);
+        expect(handleActiveChange).toHaveBeenCalledWith(true);
+      });
+    });
+
+    describe('given the bus goes from 1 to 0 listeners', () => {
+      it('invokes a callback with `false`', () => {
+        const foosub = bus.on('foo', onTestEvent);
+        expect(handleActiveChange).toHaveBeenCalledWith(true);
+        foosub();
+        expect(handleActiveChange).toHaveBeenCalledWith(false);
+      });
+    });
+  });
+
+  describe('#hasListeners', () => {
+    describe('given there are any event listeners on the instance', () => {
+      it('returns true', () => {
+        bus.every(onEveryEvent);
+        expect(bus.hasListeners).toBeTruthy();
+      });
+    });
+
+    describe('given there are no listeners registered with the instance', () => {
+      it('returns false', () => {
+        expect(bus.hasListeners).toBeFalsy();
+      });
+    });
+  });
+
+  describe('#listeners', () => {
     let bus2: DelegateTestBus;
 
     beforeEach(() => {
-      bus2 = new DelegateTestBus({emulateListenerCount: true});
+      bus2 = new DelegateTestBus({emulateListenerCount: true});
+    });
+
+    describe('given there are event listeners on the instance', () => {
+      beforeEach(() => {
+        bus.on('foo', onTestEvent);
+      });
+
+      describe('and there are no delegate listeners', () => {
+        it('lists the listeners on the instance', () => {
+          expect(bus.listeners).toEqual(new Map([[
+            'foo', new Set([onTestEvent])
+          ]]));
+          bus.on('*', onAnyEvent);
+          expect(bus.listeners.get('foo')).toEqual(new Set([onTestEvent]));
+          expect(bus.listeners.get('*').size).toEqual(1); // will be an anonymous wrapper around onEveryEvent
+        });
+      });
+
+      describe('and the instance has delegates with no listeners', () => {
+        it("lists the instance's listeners", () => {
+          bus.pipe(bus2);
+          expect(bus.listeners).toEqual(new Map([[
+            'foo', new Set([onTestEvent])
+          ]]));
+        });
+      });
+
+      describe('and the instance has delegates with listeners', () => {
+        it("lists the instance's listeners and the delegate listeners", () => {
+          bus.pipe(bus2);
+          bus2.on('foo', onAnyEvent);
+          expect(bus.listeners).toEqual(new Map([[
+            'foo', new Set([onTestEvent, onAnyEvent])
+          ]]));
+        });
+      });
+    });
+
+    describe('given there are no event listeners on the instance', () => {
+      describe('and the instance has delegates with listeners', () => {
+        it('lists the delegate listeners', () => {
+          bus.pipe(bus2);
+          bus2.on('foo', onAnyEvent);
+          expect(bus.listeners).toEqual(new Map([[
+            'foo', new Set([onAnyEvent])
+          ]]));
+        });
+      });
+
+      describe('and the instance has delegates with no listeners', () => {
+        it('returns an empty object', () => {
+          bus.pipe(bus2);
+          expect(bus.listeners.size).toEqual(0);
+        });
+      });
+
+      describe('and the instance has no delegates', () => {
+        it('returns an empty object', () => {
+          expect(bus.listeners.size).toEqual(0);
+        });
+      });
+    });
+  });
+
+  describe('#hasListenersFor', () => {
+    describe('given an instance has no listeners registered for an event', () => {
+      it('returns false', () => {
+        bus.destroy();
+        expect(bus.hasListenersFor('foo')).toBe(false);
+      });
+
+      describe('given an instance has delegates registered for an event', () => {
+        it('returns true', () => {
+          bus.destroy();
+          const bus2 = new DelegateTestBus({emulateListenerCount: true});
+          bus.pipe(bus2);
+          bus2.on('foo', () => {return; });
+          expect(bus.hasListenersFor('foo')).toBe(true);
+        });
+      });
+    });
+
+    describe('given an instance has listeners registered for an event', () => {
+      it('returns true', () => {
+        bus.destroy();
+        const handleFoo = (payload: string) => {return; };
+        bus.on('foo', handleFoo);
+
+        expect(bus.hasListenersFor('foo')).toBe(true);
+      });
+    });
+  });
+
+  describe('#destroy', () => {
+    it('removes all event listeners, triggering proper lifecycle events', () => {
+      bus = new Strongbus.Bus({allowUnhandledEvents: false});
+      spyOn(bus as any, 'handleUnexpectedEvent');
+      const willRemoveListenerSpy = jasmine.createSpy('willRemoveListener');
+      const didRemoveListenerSpy = jasmine.createSpy('didRemoveListener');
+      bus.on('foo', onTestEvent);
+      bus.hook('willRemoveListener', willRemoveListenerSpy);
+      bus.hook('didRemoveListener', didRemoveListenerSpy);
+      bus.every(onEveryEvent);
+
+      bus.emit('foo', null);
+      expect(onTestEvent).toHaveBeenCalled();
+      expect(onEveryEvent).toHaveBeenCalled();
+      onTestEvent.calls.reset();
+      onEveryEvent.calls.reset();
+
+      bus.destroy();
+
+      expect(willRemoveListenerSpy).toHaveBeenCalledWith('foo');
+      expect(didRemoveListenerSpy).toHaveBeenCalledWith('foo');
+      expect(bus.hasListenersFor('foo')).toBe(false);
+      bus.emit('foo', null);
+      expect(onTestEvent).not.toHaveBeenCalled();
+      expect(onEveryEvent).not.toHaveBeenCalled();
+      expect((bus as any).handleUnexpectedEvent).toHaveBeenCalled();
+    });
+
+    it('removes all hooks', () => {
+      const didAddListenerSpy = jasmine.createSpy('onAddListener');
+      bus.hook('didAddListener', didAddListenerSpy);
+      bus.on('foo', onTestEvent);
+      expect(didAddListenerSpy).toHaveBeenCalledWith('foo');
+      didAddListenerSpy.calls.reset();
+
+      bus.destroy();
+      bus.on('foo', onTestEvent);
+      expect(didAddListenerSpy).not.toHaveBeenCalled();
+    });
+
+    it('clears all delegates', () => {
+      const bus2 = new DelegateTestBus({});
+      bus2.on('foo', onTestEvent);
+      bus2.every(onEveryEvent);
+
+      bus.pipe(bus2);
+
+      bus.emit('foo', null);
+      expect(onTestEvent).toHaveBeenCalled();
+      expect(onEveryEvent).toHaveBeenCalled();
+      onTestEvent.calls.reset();
+      onEveryEvent.calls.reset();
+
+      bus.destroy();
+      bus.emit('foo', null);
+      expect(onTestEvent).not.toHaveBeenCalled();
+      expect(onEveryEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Reserved events', () => {
+    describe('given the wildcard (*) event is manually raised', () => {
+      it('raises an error', () => {
+        bus.on('*', onAnyEvent);
+        const shouldThrow = () => bus.emit('*' as any, 'eagle');
+
+        expect(shouldThrow).toThrow();
+      });
+    });
+  });
+
+  describe('unsubscribe function return values (Events.Subscription)s', () => {
+    describe('given it is invoked multiple times', () => {
+      it('only invokes lifecycle methods once', () => {
+        const onWillRemoveListener = jasmine.createSpy('willRemoveListener');
+        const onDidRemoveListener = jasmine.createSpy('didAddListener');
+        const onWillIdle = jasmine.createSpy('willIdle');
+        const onIdle = jasmine.createSpy('idle');
+        bus.hook('willRemoveListener', onWillRemoveListener);
+        bus.hook('didRemoveListener', onDidRemoveListener);
+        bus.hook('willIdle', onWillIdle);
+        bus.hook('idle', onIdle);
+
+        const unsub = bus.on('foo', onTestEvent);
+
+        unsub();
+
+        expect(onWillRemoveListener).toHaveBeenCalled();
+        expect(onDidRemoveListener).toHaveBeenCalled();
+        expect(onWillIdle).toHaveBeenCalled();
+        expect(onIdle).toHaveBeenCalled();
+
+        onWillRemoveListener.calls.reset();
+        onDidRemoveListener.calls.reset();
+        onWillIdle.calls.reset();
+        onIdle.calls.reset();
+
+        unsub();
+
+        expect(onWillRemoveListener).not.toHaveBeenCalled();
+        expect(onDidRemoveListener).not.toHaveBeenCalled();
+        expect(onWillIdle).not.toHaveBeenCalled();
+        expect(onIdle).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('#next', () => {
+    let onResolve: jasmine.Spy;
+    let onReject: jasmine.Spy;
+
+    beforeEach(() => {
+      onResolve = jasmine.createSpy('onResolve');
+      onReject = jasmine.createSpy('onReject');
+
+      // uncomment the following and note the type error
+      // because the sets of resolving and rejecting events aren't disjoint
+
+      // bus.next('foo', 'foo');
+      // bus.next('foo', ['foo']);
+      // bus.next(['foo'], 'foo');
+      // bus.next('*', 'foo');
+      // bus.next('*', ['foo']);
+    });
+
+    describe('given both resolving and rejecting events', () => {
+      beforeEach(() => {
+        const p = bus.next('foo', 'bar');
+        p.then(onResolve).catch(onReject);
+        expect(onResolve).not.toHaveBeenCalled();
+        expect(onReject).not.toHaveBeenCalled();
+      });
+
+      describe('when the resolving event is raised', () => {
+        it('resolves the promise', async () => {
+          bus.emit('foo', 'FOO!');
+          await sleep(1);
+          expect(onReject).not.toHaveBeenCalled();
+          expect(onResolve).toHaveBeenCalledWith('FOO!');
+          onResolve.calls.reset();
+          bus.emit('foo', 'BAR!');
+          expect(onResolve).not.toHaveBeenCalled();
+          expect(onReject).not.toHaveBeenCalled();
+        });
+
+        it('unsubscribes from the event source', () => {
+          expect([...bus.listeners.keys()]).toEqual(['foo', 'bar']);
+          bus.emit('foo', 'FOO!');
+          expect([...bus.listeners.keys()]).toEqual([]);
+        });
+      });
+
+      describe('when the rejecting event is raised', () => {
+        beforeEach(() => {
+          const p = bus.next('foo', 'bar');
+          p.then(onResolve).catch(onReject);
+          expect(onResolve).not.toHaveBeenCalled();
+          expect(onReject).not.toHaveBeenCalled();
+        });
+
+        it('rejects the promise', async () => {
+          bus.emit('bar', true);
+          await sleep(1);
+          expect(onResolve).not.toHaveBeenCalled();
+          expect(onReject).toHaveBeenCalled();
+          onReject.calls.reset();
+          bus.emit('bar', false);
+          expect(onResolve).not.toHaveBeenCalled();
+          expect(onReject).not.toHaveBeenCalled();
+        });
+
+        it('unsubscribes from the event source', () => {
+          expect([...bus.listeners.keys()]).toEqual(['foo', 'bar']);
+          bus.emit('bar', true);
+          expect([...bus.listeners.keys()]).toEqual([]);
+        });
+      });
+    });
+
+    describe('given only the resolving event', () => {
+      beforeEach(() => {
+        const p = bus.next('foo');
+        p.then(onResolve).catch(onReject);
+        expect(onResolve).not.toHaveBeenCalled();
+        expect(onReject).not.toHaveBeenCalled();
+      });
+
+      describe('when the resolving event is raised', () => {
+        it('resolves the promise', async () => {
+          bus.emit('foo', 'FOO!');
+          await sleep(1);
+          expect(onReject).not.toHaveBeenCalled();
+          expect(onResolve).toHaveBeenCalledWith('FOO!');
+          onResolve.calls.reset();
+          bus.emit('foo', 'BAR!');
+          expect(onResolve).not.toHaveBeenCalled();
+          expect(onReject).not.toHaveBeenCalled();
+        });
+
+        it('unsubscribes from the event source', () => {
+          expect([...bus.listeners.keys()]).toEqual(['foo']);
+          bus.emit('foo', 'FOO!');
+          expect([...bus.listeners.keys()]).toEqual([]);
+        });
+      });
+    });
+
+    describe('given the promise is canceled', () => {
+      it('unsubscribes from the event source', async () => {
+        const p = bus.next('foo');
+        p.then(onResolve).catch(onReject);
+        expect([...bus.listeners.keys()]).toEqual(['foo']);
+        p.cancel();
+        await sleep(1);
+        expect(onReject).toHaveBeenCalled();
+        expect([...bus.listeners.keys()]).toEqual([]);
+      });
+    });
+
+    describe('given the resolving event is the wildcard "*"', () => {
+      it('resolves on any event with an undefined value', async () => {
+        const p1 = bus.next('*');
+        p1.then(onResolve);
+        bus.emit('baz', 3);
+        await sleep(1);
+        expect(onResolve).toHaveBeenCalledWith(undefined);
+        onResolve.calls.reset();
+        const p2 = bus.next('*');
+        p2.then(onResolve);
+        bus.emit('foo', 'FOO!');
+        await sleep(1);
+        expect(onResolve).toHaveBeenCalledWith(undefined);
+      });
+    });
+
+    describe('given an array of resolving events', () => {
+      it('resolves on any of the events in the array with an undefined value', async () => {
+        const p1 = bus.next(['bar', 'baz']);
+        p1.then(onResolve);
+        bus.emit('baz', 5);
+        await sleep(1);
+        expect(onResolve).toHaveBeenCalledWith(undefined);
+        onResolve.calls.reset();
+        const p2 = bus.next(['foo', 'baz']);
+        p2.then(onResolve);
+        bus.emit('foo', 'FOO!');
+        await sleep(1);
+        expect(onResolve).toHaveBeenCalledWith(undefined);
+      });
+    });
+
+    describe('given an array of rejecting events', () => {
+      it('rejects on any of the events in the array', async () => {
+        const p1 = bus.next('foo', ['bar', 'baz']);
+        p1.catch(onReject);
+        bus.emit('baz', 2);
+        await sleep(1);
+        expect(onReject).toHaveBeenCalled();
+        onReject.calls.reset();
+        const p2 = bus.next('bar', ['foo', 'baz']);
+        p2.catch(onReject);
+        bus.emit('foo', 'FOO!');
+        await sleep(1);
+        expect(onReject).toHaveBeenCalled();
+      });
+    });
+
+    describe('given the bus is destroyed', () => {
+      it('rejects the promise', async () => {
+        const p = bus.next('foo');
+        p.then(onResolve).catch(onReject);
+        bus.destroy();
+        await sleep(1);
+        expect(onReject).toHaveBeenCalled();
+        expect([...bus.listeners.keys()]).toEqual([]);
+      });
+    });
+  });
+
+  describe('#use', () => {
+    it('passes events through middleware in the order it was added', () => {
+      const calls: string[] = [];
+      bus.use((event, payload, next) => {
+        calls.push(`first ${event}`);
+        next();
+      });
+      bus.use((event, payload, next) => {
+        calls.push(`second ${event}`);
+        next();
+      });
+      bus.on('foo', onTestEvent);
+
+      expect(bus.emit('foo', 'wolf')).toBe(true);
+      expect(calls).toEqual(['first foo', 'second foo']);
+      expect(onTestEvent).toHaveBeenCalledWith('wolf');
+    });
+
+    it('allows middleware to replace the payload', () => {
+      bus.use((event, payload, next) => next(event === 'foo' ? '[redacted]' as any : payload));
+      bus.on('foo', onTestEvent);
+      bus.on('*', onEveryEvent);
+
+      bus.emit('foo', 'wolf');
+      expect(onTestEvent).toHaveBeenCalledWith('[redacted]');
+      expect(onEveryEvent).toHaveBeenCalledWith('foo', '[redacted]');
+    });
+
+    it('allows middleware to drop events', () => {
+      bus.use((event, payload, next) => event === 'foo' ? null : next());
+      bus.on('foo', onTestEvent);
+      bus.on('bar', onTestEvent);
+
+      expect(bus.emit('foo', 'wolf')).toBe(false);
+      expect(onTestEvent).not.toHaveBeenCalled();
+
+      expect(bus.emit('bar', true)).toBe(true);
+      expect(onTestEvent).toHaveBeenCalledWith(true);
+    });
+
+    it('allows middleware to defer events', async () => {
+      bus.use(async (event, payload, next) => {
+        await sleep(5);
+        next();
+      });
+      bus.on('foo', onTestEvent);
+
+      bus.emit('foo', 'wolf');
+      expect(onTestEvent).not.toHaveBeenCalled();
+
+      await sleep(10);
+      expect(onTestEvent).toHaveBeenCalledWith('wolf');
+    });
+
+    it('raises Lifecycle.error for deferred events that are unhandled, rather than throwing', async () => {
+      bus = new Strongbus.Bus<TestEventMap>({allowUnhandledEvents: false});
+      const onError = jasmine.createSpy('onError');
+      bus.hook(Strongbus.Lifecycle.error, onError);
+      let deferred: () => void;
+      bus.use((event, payload, next) => {
+        deferred = next;
+      });
+
+      bus.emit('foo', 'wolf');
+      expect(() => deferred()).not.toThrow();
+      expect(onError).toHaveBeenCalledWith({error: jasmine.any(Error), event: 'foo'});
+    });
+
+    it('reports events dropped or deferred by middleware as intercepted by #emitAsync', async () => {
+      bus.use(async (event, payload, next) => {
+        if(event === 'bar') {
+          await sleep(5);
+          next();
+        }
+      });
+      bus.on('foo', onTestEvent);
+      bus.on('bar', onTestEvent);
+
+      expect(await bus.emitAsync('foo', 'wolf')).toEqual({handled: false, errors: [], intercepted: true});
+      expect(await bus.emitAsync('bar', true)).toEqual({handled: false, errors: [], intercepted: true});
+      expect(onTestEvent).not.toHaveBeenCalled();
+      await sleep(10);
+      expect(onTestEvent).toHaveBeenCalledWith(true);
+    });
+
+    it('applies to #emitAsync and #emitCancelable', async () => {
+      bus.use((event, payload, next) => next('[redacted]' as any));
+      bus.on('foo', onTestEvent);
+
+      await bus.emitAsync('foo', 'wolf');
+      bus.emitCancelable('foo', 'wolf');
+      expect(onTestEvent.calls.allArgs().map(([payload]) => payload)).toEqual(['[redacted]', '[redacted]']);
+    });
+
+    it('returns a Subscription that removes the middleware', () => {
+      const sub = bus.use(() => null);
+      bus.on('foo', onTestEvent);
+
+      bus.emit('foo', 'wolf');
+      expect(onTestEvent).not.toHaveBeenCalled();
+
+      sub();
+      bus.emit('foo', 'wolf');
+      expect(onTestEvent).toHaveBeenCalledWith('wolf');
+    });
+  });
+
+  describe('sticky events', () => {
+    beforeEach(() => {
+      bus = new Strongbus.Bus<TestEventMap>({sticky: ['foo']});
     });
 
-    describe('given there are event listeners on the instance', () => {
-      beforeEach(() => {
-        bus.on('foo', onTestEvent);
+    it('delivers the most recent payload to new subscribers synchronously', () => {
+      bus.emit('foo', 'otter');
+      bus.emit('foo', 'beaver');
+      bus.on('foo', onTestEvent);
+
+      expect(onTestEvent).toHaveBeenCalledTimes(1);
+      expect(onTestEvent).toHaveBeenCalledWith('beaver');
+    });
+
+    it('delivers the most recent payload to subscribers of a list of events', () => {
+      bus.emit('foo', 'otter');
+      bus.on(['foo', 'bar'], onAnyEvent);
+
+      expect(onAnyEvent).toHaveBeenCalledWith('foo', 'otter');
+    });
+
+    it('delivers the most recent payloads of the events matching a pattern to its subscribers', () => {
+      const namespacedBus = new Strongbus.Bus<NamespacedEventMap>({sticky: ['user.created', 'user.address.changed', 'order.paid']});
+      namespacedBus.emit('user.created', {id: '1'});
+      namespacedBus.emit('user.address.changed', {street: 'Main'});
+      namespacedBus.emit('order.paid', 5);
+      namespacedBus.on('user.*', onAnyEvent);
+
+      expect(onAnyEvent.calls.allArgs()).toEqual([
+        ['user.created', {id: '1'}],
+        ['user.address.changed', {street: 'Main'}]
+      ]);
+    });
+
+    it('does not deliver payloads to wildcard subscribers', () => {
+      bus.emit('foo', 'otter');
+      bus.on('*', onEveryEvent);
+
+      expect(onEveryEvent).not.toHaveBeenCalled();
+    });
+
+    it('does not cache events that are not sticky', () => {
+      bus.emit('bar', true);
+      bus.on('bar', onTestEvent);
+
+      expect(onTestEvent).not.toHaveBeenCalled();
+      expect(bus.last('bar')).toBeUndefined();
+    });
+
+    it('removes a #once subscription after delivering the sticky payload', () => {
+      bus.emit('foo', 'otter');
+      bus.once('foo', onTestEvent);
+      bus.emit('foo', 'beaver');
+
+      expect(onTestEvent).toHaveBeenCalledTimes(1);
+      expect(onTestEvent).toHaveBeenCalledWith('otter');
+      expect(bus.hasListeners).toBe(false);
+    });
+
+    describe('#emitSticky', () => {
+      it('makes the event sticky', () => {
+        bus.emitSticky('bar', true);
+        bus.emit('bar', false);
+        bus.on('bar', onTestEvent);
+
+        expect(onTestEvent).toHaveBeenCalledWith(false);
       });
+    });
 
-      describe('and there are no delegate listeners', () => {
-        it('lists the listeners on the instance', () => {
-          expect(bus.listeners).toEqual(new Map([[
-            'foo', new Set([onTestEvent])
-          ]]));
-          bus.on('*', onAnyEvent);
-          expect(bus.listeners.get('foo')).toEqual(new Set([onTestEvent]));
-          expect(bus.listeners.get('*').size).toEqual(1); // will be an anonymous wrapper around onEveryEvent
-        });
+    describe('#last', () => {
+      it('returns the most recent payload of a sticky event', () => {
+        expect(bus.last('foo')).toBeUndefined();
+        bus.emit('foo', 'otter');
+        expect(bus.last('foo')).toEqual('otter');
       });
+    });
 
-      describe('and the instance has delegates with no listeners', () => {
-        it("lists the instance's listeners", () => {
-          bus.pipe(bus2);
-          expect(bus.listeners).toEqual(new Map([[
-            'foo', new Set([onTestEvent])
-          ]]));
-        });
+    describe('#clearSticky', () => {
+      it('clears the cached payload', () => {
+        bus.emit('foo', 'otter');
+        bus.clearSticky('foo');
+        bus.on('foo', onTestEvent);
+
+        expect(onTestEvent).not.toHaveBeenCalled();
+        expect(bus.last('foo')).toBeUndefined();
       });
+    });
 
-      describe('and the instance has delegates with listeners', () => {
-        it("lists the instance's listeners and the delegate listeners", () => {
-          bus.pipe(bus2);
-          bus2.on('foo', onAnyEvent);
-          expect(bus.listeners).toEqual(new Map([[
-            'foo', new Set([onTestEvent, onAnyEvent])
-          ]]));
-        });
+    describe('given the bus is destroyed', () => {
+      it('clears cached payloads', () => {
+        bus.emit('foo', 'otter');
+        bus.destroy();
+
+        expect(bus.last('foo')).toBeUndefined();
       });
     });
+  });
 
-    describe('given there are no event listeners on the instance', () => {
-      describe('and the instance has delegates with listeners', () => {
-        it('lists the delegate listeners', () => {
-          bus.pipe(bus2);
-          bus2.on('foo', onAnyEvent);
-          expect(bus.listeners).toEqual(new Map([[
-            'foo', new Set([onAnyEvent])
-          ]]));
-        });
+  describe('#history', () => {
+    beforeEach(() => {
+      bus = new Strongbus.Bus<TestEventMap>({history: 3});
+    });
+
+    it('records the most recently raised events, oldest first', () => {
+      bus.emit('foo', 'one');
+      bus.emit('bar', true);
+      bus.emit('baz', 3);
+      bus.emit('foo', 'four');
+
+      const history = bus.history();
+      expect(history.map(({event, payload}) => [event, payload])).toEqual([['bar', true], ['baz', 3], ['foo', 'four']]);
+      expect(history.every(({timestamp}) => typeof timestamp === 'number')).toBe(true);
+    });
+
+    it('keeps the most recent events as more are raised', () => {
+      ['one', 'two', 'three', 'four', 'five', 'six', 'seven'].forEach(payload => bus.emit('foo', payload));
+
+      expect(bus.history().map(({payload}) => payload)).toEqual(['five', 'six', 'seven']);
+    });
+
+    it('filters recorded events', () => {
+      bus.emit('foo', 'one');
+      bus.emit('bar', true);
+      bus.emit('baz', 3);
+
+      expect(bus.history('foo').map(({payload}) => payload)).toEqual(['one']);
+      expect(bus.history(['foo', 'baz']).map(({event}) => event)).toEqual(['foo', 'baz']);
+    });
+
+    it('records nothing by default', () => {
+      bus = new Strongbus.Bus<TestEventMap>();
+      bus.emit('foo', 'one');
+
+      expect(bus.history()).toEqual([]);
+    });
+
+    describe('given a subscription with options.replay', () => {
+      beforeEach(() => {
+        bus.emit('foo', 'one');
+        bus.emit('bar', true);
+        bus.emit('foo', 'three');
       });
 
-      describe('and the instance has delegates with no listeners', () => {
-        it('returns an empty object', () => {
-          bus.pipe(bus2);
-          expect(bus.listeners.size).toEqual(0);
-        });
+      it('delivers up to that many matching recorded events to a single event handler', () => {
+        bus.on('foo', onTestEvent, {replay: 5});
+        expect(onTestEvent.calls.allArgs()).toEqual([['one'], ['three']]);
       });
 
-      describe('and the instance has no delegates', () => {
-        it('returns an empty object', () => {
-          expect(bus.listeners.size).toEqual(0);
+      it('delivers matching recorded events to a multiple event handler', () => {
+        bus.on(['foo', 'bar'], onAnyEvent, {replay: 2});
+        expect(onAnyEvent.calls.allArgs()).toEqual([['bar', true], ['foo', 'three']]);
+      });
+
+      it('delivers recorded events to a wildcard handler', () => {
+        bus.on('*', onEveryEvent, {replay: 1});
+        expect(onEveryEvent.calls.allArgs()).toEqual([['foo', 'three']]);
+      });
+
+      describe('and a sticky event', () => {
+        beforeEach(() => {
+          bus = new Strongbus.Bus<TestEventMap>({history: 3, sticky: ['foo']});
+          bus.emit('foo', 'one');
+          bus.emit('bar', true);
+          bus.emit('foo', 'three');
+        });
+
+        it('delivers the sticky payload once, as the most recent replayed event', () => {
+          bus.on('foo', onTestEvent, {replay: 1});
+          expect(onTestEvent.calls.allArgs()).toEqual([['three']]);
+        });
+
+        it('does not deliver the sticky payload when it is not among the replayed events', () => {
+          bus.emit('bar', false);
+          bus.on(['foo', 'bar'], onAnyEvent, {replay: 1});
+          expect(onAnyEvent.calls.allArgs()).toEqual([['bar', false]]);
         });
       });
     });
   });
 
-  describe('#hasListenersFor', () => {
-    describe('given an instance has no listeners registered for an event', () => {
-      it('returns false', () => {
-        bus.destroy();
-        expect(bus.hasListenersFor('foo')).toBe(false);
+  describe('#request', () => {
+    type TestResponseMap = {
+      foo: number;
+      bar: string;
+    };
+    let rpcBus: Strongbus.Bus<TestEventMap, TestResponseMap>;
+    let onResolve: jasmine.Spy;
+    let onReject: jasmine.Spy;
+
+    beforeEach(() => {
+      rpcBus = new Strongbus.Bus<TestEventMap, TestResponseMap>();
+      onResolve = jasmine.createSpy('onResolve');
+      onReject = jasmine.createSpy('onReject');
+    });
+
+    it('resolves with the response of the responder', async () => {
+      rpcBus.respond('foo', payload => payload.length);
+      rpcBus.respond('bar', async payload => payload ? 'yes' : 'no');
+
+      expect(await rpcBus.request('foo', 'heron')).toEqual(5);
+      expect(await rpcBus.request('bar', true)).toEqual('yes');
+    });
+
+    it('resolves with the response of a delegate\'s responder', async () => {
+      const delegate = new Strongbus.Bus<TestEventMap, TestResponseMap>();
+      rpcBus.pipe(delegate);
+      delegate.respond('foo', payload => payload.length);
+
+      expect(await rpcBus.request('foo', 'heron')).toEqual(5);
+    });
+
+    it('does not raise the event to handlers', async () => {
+      rpcBus.on('foo', onTestEvent);
+      rpcBus.respond('foo', payload => payload.length);
+      await rpcBus.request('foo', 'heron');
+
+      expect(onTestEvent).not.toHaveBeenCalled();
+    });
+
+    describe('given there is no responder', () => {
+      it('rejects the promise', async () => {
+        const sub = rpcBus.respond('foo', payload => payload.length);
+        sub();
+        rpcBus.request('foo', 'heron').then(onResolve, onReject);
+        await sleep(1);
+
+        expect(onResolve).not.toHaveBeenCalled();
+        expect(onReject).toHaveBeenCalled();
       });
+    });
 
-      describe('given an instance has delegates registered for an event', () => {
-        it('returns true', () => {
-          bus.destroy();
-          const bus2 = new DelegateTestBus({emulateListenerCount: true});
-          bus.pipe(bus2);
-          bus2.on('foo', () => {return; });
-          expect(bus.hasListenersFor('foo')).toBe(true);
+    describe('given there are conflicting responders', () => {
+      it('rejects the promise', async () => {
+        rpcBus.respond('foo', payload => payload.length);
+        rpcBus.respond('foo', () => 0);
+        rpcBus.request('foo', 'heron').then(onResolve, onReject);
+        await sleep(1);
+
+        expect(onResolve).not.toHaveBeenCalled();
+        expect(onReject).toHaveBeenCalled();
+      });
+    });
+
+    describe('given the responder throws', () => {
+      it('rejects the promise with the error', async () => {
+        const error = new Error('no response');
+        rpcBus.respond('foo', () => { throw error; });
+        rpcBus.request('foo', 'heron').then(onResolve, onReject);
+        await sleep(1);
+
+        expect(onReject).toHaveBeenCalledWith(error);
+      });
+    });
+
+    describe('given the timeout expires before a response', () => {
+      it('rejects the promise', async () => {
+        rpcBus.respond('foo', async () => {
+          await sleep(20);
+          return 1;
         });
+        rpcBus.request('foo', 'heron', {timeout: 5}).then(onResolve, onReject);
+        await sleep(30);
+
+        expect(onResolve).not.toHaveBeenCalled();
+        expect(onReject).toHaveBeenCalled();
       });
     });
 
-    describe('given an instance has listeners registered for an event', () => {
-      it('returns true', () => {
-        bus.destroy();
-        const handleFoo = (payload: string) => {return; };
-        bus.on('foo', handleFoo);
+    describe('given the bus is destroyed before a response', () => {
+      it('cancels the promise', async () => {
+        rpcBus.respond('foo', async () => {
+          await sleep(10);
+          return 1;
+        });
+        rpcBus.request('foo', 'heron').then(onResolve, onReject);
+        rpcBus.destroy();
+        await sleep(20);
 
-        expect(bus.hasListenersFor('foo')).toBe(true);
+        expect(onResolve).not.toHaveBeenCalled();
+        expect(onReject).toHaveBeenCalledWith('Anonymous Bus destroyed');
       });
     });
   });
 
-  describe('#destroy', () => {
-    it('removes all event listeners, triggering proper lifecycle events', () => {
-      bus = new Strongbus.Bus({allowUnhandledEvents: false});
-      spyOn(bus as any, 'handleUnexpectedEvent');
-      const willRemoveListenerSpy = jasmine.createSpy('willRemoveListener');
-      const didRemoveListenerSpy = jasmine.createSpy('didRemoveListener');
+  describe('options.validators', () => {
+    const isString = (payload: unknown): payload is string => typeof payload === 'string';
+
+    beforeEach(() => {
+      bus = new Strongbus.Bus<TestEventMap>({validators: {foo: isString}});
       bus.on('foo', onTestEvent);
-      bus.hook('willRemoveListener', willRemoveListenerSpy);
-      bus.hook('didRemoveListener', didRemoveListenerSpy);
-      bus.every(onEveryEvent);
+    });
 
-      bus.emit('foo', null);
-      expect(onTestEvent).toHaveBeenCalled();
-      expect(onEveryEvent).toHaveBeenCalled();
-      onTestEvent.calls.reset();
-      onEveryEvent.calls.reset();
+    it('delivers valid payloads', () => {
+      expect(bus.emit('foo', 'valid')).toBe(true);
+      expect(onTestEvent).toHaveBeenCalledWith('valid');
+    });
 
-      bus.destroy();
+    it('drops invalid payloads, raising Lifecycle.invalidPayload', () => {
+      const onInvalid = jasmine.createSpy('onInvalid');
+      bus.hook(Strongbus.Lifecycle.invalidPayload, onInvalid);
 
-      expect(willRemoveListenerSpy).toHaveBeenCalledWith('foo');
-      expect(didRemoveListenerSpy).toHaveBeenCalledWith('foo');
-      expect(bus.hasListenersFor('foo')).toBe(false);
-      bus.emit('foo', null);
+      expect(bus.emit('foo', 42 as any)).toBe(false);
       expect(onTestEvent).not.toHaveBeenCalled();
-      expect(onEveryEvent).not.toHaveBeenCalled();
-      expect((bus as any).handleUnexpectedEvent).toHaveBeenCalled();
+      expect(onInvalid).toHaveBeenCalledWith({event: 'foo', payload: 42});
     });
 
-    it('removes all hooks', () => {
-      const didAddListenerSpy = jasmine.createSpy('onAddListener');
-      bus.hook('didAddListener', didAddListenerSpy);
-      bus.on('foo', onTestEvent);
-      expect(didAddListenerSpy).toHaveBeenCalledWith('foo');
-      didAddListenerSpy.calls.reset();
-
-      bus.destroy();
-      bus.on('foo', onTestEvent);
-      expect(didAddListenerSpy).not.toHaveBeenCalled();
+    it('validates payloads replaced by middleware', () => {
+      bus.use((event, payload, next) => next(null));
+      bus.emit('foo', 'valid');
+      expect(onTestEvent).not.toHaveBeenCalled();
     });
 
-    it('clears all delegates', () => {
-      const bus2 = new DelegateTestBus({});
-      bus2.on('foo', onTestEvent);
-      bus2.every(onEveryEvent);
+    it('validates payloads raised with #emitAsync and #emitCancelable', async () => {
+      expect((await bus.emitAsync('foo', 42 as any)).handled).toBe(false);
+      expect(bus.emitCancelable('foo', 42 as any).handled).toBe(false);
+      expect(onTestEvent).not.toHaveBeenCalled();
+    });
 
-      bus.pipe(bus2);
+    describe('given options.rejectInvalidPayloads=true', () => {
+      beforeEach(() => {
+        bus = new Strongbus.Bus<TestEventMap>({validators: {foo: isString}, rejectInvalidPayloads: true});
+        bus.on('foo', onTestEvent);
+      });
 
-      bus.emit('foo', null);
-      expect(onTestEvent).toHaveBeenCalled();
-      expect(onEveryEvent).toHaveBeenCalled();
-      onTestEvent.calls.reset();
-      onEveryEvent.calls.reset();
+      it('throws when an event is raised with an invalid payload', () => {
+        expect(() => bus.emit('foo', 42 as any)).toThrowError(/received invalid payload for message type 'foo'/);
+        expect(onTestEvent).not.toHaveBeenCalled();
+      });
 
-      bus.destroy();
-      bus.emit('foo', null);
-      expect(onTestEvent).not.toHaveBeenCalled();
-      expect(onEveryEvent).not.toHaveBeenCalled();
+      it('invokes instance\'s #handleInvalidPayload method', () => {
+        spyOn(bus as any, 'handleInvalidPayload');
+        bus.emit('foo', 42 as any);
+        expect((bus as any).handleInvalidPayload).toHaveBeenCalledWith('foo', 42);
+      });
     });
-  });
 
-  describe('Reserved events', () => {
-    describe('given the wildcard (*) event is manually raised', () => {
-      it('raises an error', () => {
-        bus.on('*', onAnyEvent);
-        const shouldThrow = () => bus.emit('*' as any, 'eagle');
+    describe('given validators created from schemas', () => {
+      it('validates payloads with the SchemaAdapter', () => {
+        const adapter: Strongbus.SchemaAdapter<string> = {isValid: (type, payload) => typeof payload === type};
+        bus = new Strongbus.Bus<TestEventMap>({
+          validators: Strongbus.createValidators<TestEventMap, string>(adapter, {foo: 'string', baz: 'number'})
+        });
+        bus.on(['foo', 'baz'], onAnyEvent);
 
-        expect(shouldThrow).toThrow();
+        bus.emit('foo', 'valid');
+        bus.emit('baz', 'invalid' as any);
+        expect(onAnyEvent).toHaveBeenCalledTimes(1);
+        expect(onAnyEvent).toHaveBeenCalledWith('foo', 'valid');
       });
     });
   });
 
-  describe('unsubscribe function return values (Events.Subscription)s', () => {
-    describe('given it is invoked multiple times', () => {
-      it('only invokes lifecycle methods once', () => {
-        const onWillRemoveListener = jasmine.createSpy('willRemoveListener');
-        const onDidRemoveListener = jasmine.createSpy('didAddListener');
-        const onWillIdle = jasmine.createSpy('willIdle');
-        const onIdle = jasmine.createSpy('idle');
-        bus.hook('willRemoveListener', onWillRemoveListener);
-        bus.hook('didRemoveListener', onDidRemoveListener);
-        bus.hook('willIdle', onWillIdle);
-        bus.hook('idle', onIdle);
+  describe('#metrics', () => {
+    beforeEach(() => {
+      bus = new Strongbus.Bus<TestEventMap>({name: 'Test', dispatch: 'sync'});
+    });
 
-        const unsub = bus.on('foo', onTestEvent);
+    it('counts emits, handled and unhandled', () => {
+      bus.on('foo', onTestEvent);
+      bus.emit('foo', 'one');
+      bus.emit('foo', 'two');
+      bus.emit('bar', true);
 
-        unsub();
+      const metrics = bus.metrics();
+      expect(metrics.foo).toEqual(jasmine.objectContaining({emits: 2, handled: 2, unhandled: 0}));
+      expect(metrics.bar).toEqual(jasmine.objectContaining({emits: 1, handled: 0, unhandled: 1}));
+    });
 
-        expect(onWillRemoveListener).toHaveBeenCalled();
-        expect(onDidRemoveListener).toHaveBeenCalled();
-        expect(onWillIdle).toHaveBeenCalled();
-        expect(onIdle).toHaveBeenCalled();
+    it('measures handler calls, durations and errors', async () => {
+      bus.on('foo', async () => {
+        await sleep(5);
+        throw new Error('oops');
+      });
+      bus.on('foo', onTestEvent);
 
-        onWillRemoveListener.calls.reset();
-        onDidRemoveListener.calls.reset();
-        onWillIdle.calls.reset();
-        onIdle.calls.reset();
+      await bus.emitAsync('foo', 'one');
+      const {foo} = bus.metrics();
+      expect(foo.handlerCalls).toBe(2);
+      expect(foo.handlerErrors).toBe(1);
+      expect(foo.handlerDuration.max).toBeGreaterThanOrEqual(4);
+    });
 
-        unsub();
+    it('counts errors of handlers raised with #emit', () => {
+      bus.on('foo', () => { throw new Error('oops'); });
 
-        expect(onWillRemoveListener).not.toHaveBeenCalled();
-        expect(onDidRemoveListener).not.toHaveBeenCalled();
-        expect(onWillIdle).not.toHaveBeenCalled();
-        expect(onIdle).not.toHaveBeenCalled();
-      });
+      bus.emit('foo', 'one');
+      expect(bus.metrics().foo).toEqual(jasmine.objectContaining({handlerCalls: 1, handlerErrors: 1}));
     });
-  });
 
-  describe('#next', () => {
-    let onResolve: jasmine.Spy;
-    let onReject: jasmine.Spy;
+    it('tracks current listener counts', () => {
+      const sub = bus.on('foo', onTestEvent);
+      bus.on('foo', onAnyEvent);
+      bus.on('*', onAnyEvent);
+      expect(bus.metrics().foo.listeners).toBe(2);
+      expect(bus.metrics()['*'].listeners).toBe(1);
 
-    beforeEach(() => {
-      onResolve = jasmine.createSpy('onResolve');
-      onReject = jasmine.createSpy('onReject');
+      sub();
+      expect(bus.metrics().foo.listeners).toBe(1);
+    });
 
-      // uncomment the following and note the type error
-      // because the sets of resolving and rejecting events aren't disjoint
+    it('counts deliveries to delegates', () => {
+      bus.pipe(new Strongbus.Bus<TestEventMap>());
+      bus.pipe(new Strongbus.Bus<TestEventMap>());
+      bus.emit('foo', 'one');
 
-      // bus.next('foo', 'foo');
-      // bus.next('foo', ['foo']);
-      // bus.next(['foo'], 'foo');
-      // bus.next('*', 'foo');
-      // bus.next('*', ['foo']);
+      expect(bus.metrics().foo.fanOut).toBe(2);
     });
 
-    describe('given both resolving and rejecting events', () => {
-      beforeEach(() => {
-        const p = bus.next('foo', 'bar');
-        p.then(onResolve).catch(onReject);
-        expect(onResolve).not.toHaveBeenCalled();
-        expect(onReject).not.toHaveBeenCalled();
-      });
+    it('reports measurements to options.metrics', () => {
+      const sink = jasmine.createSpyObj<Strongbus.MetricsSink>('sink', ['recordEmit', 'recordHandler', 'recordListeners', 'recordFanOut']);
+      bus = new Strongbus.Bus<TestEventMap>({name: 'Test', metrics: sink});
+      bus.on('foo', onTestEvent);
+      bus.emit('foo', 'one');
 
-      describe('when the resolving event is raised', () => {
-        it('resolves the promise', async () => {
-          bus.emit('foo', 'FOO!');
-          await sleep(1);
-          expect(onReject).not.toHaveBeenCalled();
-          expect(onResolve).toHaveBeenCalledWith('FOO!');
-          onResolve.calls.reset();
-          bus.emit('foo', 'BAR!');
-          expect(onResolve).not.toHaveBeenCalled();
-          expect(onReject).not.toHaveBeenCalled();
-        });
+      expect(sink.recordListeners).toHaveBeenCalledWith('Test Bus', 'foo', 1);
+      expect(sink.recordEmit).toHaveBeenCalledWith('Test Bus', 'foo', true);
+      expect(sink.recordHandler).toHaveBeenCalledWith('Test Bus', 'foo', jasmine.any(Number), false);
+    });
+  });
 
-        it('unsubscribes from the event source', () => {
-          expect([...bus.listeners.keys()]).toEqual(['foo', 'bar']);
-          bus.emit('foo', 'FOO!');
-          expect([...bus.listeners.keys()]).toEqual([]);
-        });
-      });
+  describe('options.tracer', () => {
+    let tracer: Strongbus.RecordingTracer;
 
-      describe('when the rejecting event is raised', () => {
-        beforeEach(() => {
-          const p = bus.next('foo', 'bar');
-          p.then(onResolve).catch(onReject);
-          expect(onResolve).not.toHaveBeenCalled();
-          expect(onReject).not.toHaveBeenCalled();
-        });
+    beforeEach(() => {
+      tracer = new Strongbus.RecordingTracer();
+      bus = new Strongbus.Bus<TestEventMap>({name: 'Test', dispatch: 'sync', tracer});
+    });
 
-        it('rejects the promise', async () => {
-          bus.emit('bar', true);
-          await sleep(1);
-          expect(onResolve).not.toHaveBeenCalled();
-          expect(onReject).toHaveBeenCalled();
-          onReject.calls.reset();
-          bus.emit('bar', false);
-          expect(onResolve).not.toHaveBeenCalled();
-          expect(onReject).not.toHaveBeenCalled();
-        });
+    it('does not trace events and handlers by default', async () => {
+      spyOn(Strongbus.noopTracer, 'startSpan').and.callThrough();
+      bus = new Strongbus.Bus<TestEventMap>();
+      bus.on('foo', onTestEvent);
 
-        it('unsubscribes from the event source', () => {
-          expect([...bus.listeners.keys()]).toEqual(['foo', 'bar']);
-          bus.emit('bar', true);
-          expect([...bus.listeners.keys()]).toEqual([]);
-        });
-      });
+      bus.emit('foo', 'one');
+      await bus.emitAsync('foo', 'two');
+
+      expect(Strongbus.noopTracer.startSpan).not.toHaveBeenCalled();
+      expect(onTestEvent).toHaveBeenCalledTimes(2);
     });
 
-    describe('given only the resolving event', () => {
-      beforeEach(() => {
-        const p = bus.next('foo');
-        p.then(onResolve).catch(onReject);
-        expect(onResolve).not.toHaveBeenCalled();
-        expect(onReject).not.toHaveBeenCalled();
-      });
+    it('traces each emit with a span per handler', () => {
+      bus.on('foo', onTestEvent);
+      bus.on('foo', onAnyEvent);
+      bus.emit('foo', 'one');
+
+      const [emitted, ...handled] = tracer.spans;
+      expect(emitted.name).toBe('emit foo');
+      expect(emitted.attributes).toEqual({bus: 'Test Bus', event: 'foo', handled: true});
+      expect(emitted.endTime).toBeDefined();
+      expect(handled.length).toBe(2);
+      expect(tracer.children(emitted)).toEqual(handled);
+      expect(handled.every(s => s.name === 'handle foo' && s.context.traceId === emitted.context.traceId)).toBeTrue();
+    });
 
-      describe('when the resolving event is raised', () => {
-        it('resolves the promise', async () => {
-          bus.emit('foo', 'FOO!');
-          await sleep(1);
-          expect(onReject).not.toHaveBeenCalled();
-          expect(onResolve).toHaveBeenCalledWith('FOO!');
-          onResolve.calls.reset();
-          bus.emit('foo', 'BAR!');
-          expect(onResolve).not.toHaveBeenCalled();
-          expect(onReject).not.toHaveBeenCalled();
-        });
+    it('nests events raised by handlers in the handler\'s span', () => {
+      bus.on('foo', () => bus.emit('bar', true));
+      bus.emit('foo', 'one');
 
-        it('unsubscribes from the event source', () => {
-          expect([...bus.listeners.keys()]).toEqual(['foo']);
-          bus.emit('foo', 'FOO!');
-          expect([...bus.listeners.keys()]).toEqual([]);
-        });
-      });
+      const [, handler] = tracer.spans;
+      expect(tracer.children(handler).map(s => s.name)).toEqual(['emit bar']);
     });
 
-    describe('given the promise is canceled', () => {
-      it('unsubscribes from the event source', async () => {
-        const p = bus.next('foo');
-        p.then(onResolve).catch(onReject);
-        expect([...bus.listeners.keys()]).toEqual(['foo']);
-        p.cancel();
-        await sleep(1);
-        expect(onReject).toHaveBeenCalled();
-        expect([...bus.listeners.keys()]).toEqual([]);
-      });
-    });
+    it('continues the trace through delegates', async () => {
+      const delegate = new Strongbus.Bus<TestEventMap>({name: 'Delegate', tracer});
+      delegate.on('foo', onTestEvent);
+      bus.pipe(delegate);
 
-    describe('given the resolving event is the wildcard "*"', () => {
-      it('resolves on any event with an undefined value', async () => {
-        const p1 = bus.next('*');
-        p1.then(onResolve);
-        bus.emit('baz', 3);
-        await sleep(1);
-        expect(onResolve).toHaveBeenCalledWith(undefined);
-        onResolve.calls.reset();
-        const p2 = bus.next('*');
-        p2.then(onResolve);
-        bus.emit('foo', 'FOO!');
-        await sleep(1);
-        expect(onResolve).toHaveBeenCalledWith(undefined);
-      });
+      bus.emit('foo', 'one');
+      await bus.emitAsync('foo', 'two');
+
+      const emits = tracer.spans.filter(s => s.name === 'emit foo');
+      expect(emits.map(s => s.attributes.bus)).toEqual(['Test Bus', 'Delegate Bus', 'Test Bus', 'Delegate Bus']);
+      expect(emits[1].parent).toEqual(emits[0].context);
+      expect(emits[3].parent).toEqual(emits[2].context);
     });
 
-    describe('given an array of resolving events', () => {
-      it('resolves on any of the events in the array with an undefined value', async () => {
-        const p1 = bus.next(['bar', 'baz']);
-        p1.then(onResolve);
-        bus.emit('baz', 5);
-        await sleep(1);
-        expect(onResolve).toHaveBeenCalledWith(undefined);
-        onResolve.calls.reset();
-        const p2 = bus.next(['foo', 'baz']);
-        p2.then(onResolve);
-        bus.emit('foo', 'FOO!');
-        await sleep(1);
-        expect(onResolve).toHaveBeenCalledWith(undefined);
+    it('records handler errors', async () => {
+      const error = new Error('oops');
+      bus.on('foo', async () => {
+        await sleep(5);
+        throw error;
       });
+
+      await bus.emitAsync('foo', 'one');
+      const [emitted, handled] = tracer.spans;
+      expect(handled.errors).toEqual([error]);
+      expect(handled.endTime).toBeDefined();
+      expect(emitted.endTime).toBeGreaterThanOrEqual(handled.endTime);
     });
 
-    describe('given an array of rejecting events', () => {
-      it('rejects on any of the events in the array', async () => {
-        const p1 = bus.next('foo', ['bar', 'baz']);
-        p1.catch(onReject);
-        bus.emit('baz', 2);
-        await sleep(1);
-        expect(onReject).toHaveBeenCalled();
-        onReject.calls.reset();
-        const p2 = bus.next('bar', ['foo', 'baz']);
-        p2.catch(onReject);
-        bus.emit('foo', 'FOO!');
-        await sleep(1);
-        expect(onReject).toHaveBeenCalled();
-      });
+    it('links #next to the span of the handler that resolved it', async () => {
+      const next = bus.next('bar');
+      bus.emit('bar', true);
+      await next;
+
+      const nextSpan = tracer.spans.find(s => s.name === 'next bar');
+      const handler = tracer.spans.find(s => s.name === 'handle bar');
+      expect(nextSpan.endTime).toBeDefined();
+      expect(nextSpan.links).toEqual([handler.context]);
     });
 
-    describe('given the bus is destroyed', () => {
-      it('rejects the promise', async () => {
-        const p = bus.next('foo');
-        p.then(onResolve).catch(onReject);
-        bus.destroy();
-        await sleep(1);
-        expect(onReject).toHaveBeenCalled();
-        expect([...bus.listeners.keys()]).toEqual([]);
+    it('traces #scan evaluations triggered by events', async () => {
+      const scanned = bus.scan<boolean>({
+        evaluator: (resolve) => {
+          if(bus.hasListenersFor('bar')) {
+            resolve(true);
+          }
+        },
+        trigger: 'foo'
       });
+      bus.on('bar', onTestEvent);
+      bus.emit('foo', 'one');
+      await scanned;
+
+      const scans = tracer.spans.filter(s => s.name === 'scan');
+      expect(scans.length).toBe(2);
+      expect(scans[0].parent).toBeUndefined();
+      const handler = tracer.spans.find(s => s.context.spanId === scans[1].parent.spanId);
+      expect(handler.name).toBe('handle foo');
     });
   });
 
@@ -1073,4 +2489,99 @@ describe('Strongbus.Bus', () => {
       });
     });
   });
+
+  describe('#waitFor', () => {
+    it('resolves with the first truthy value the predicate returns', async () => {
+      let count = 0;
+      bus.on('baz', n => {
+        count += n;
+      });
+      const p = bus.waitFor(() => count > 2 && count, {triggers: 'baz'});
+
+      bus.emit('baz', 1);
+      bus.emit('baz', 2);
+      bus.emit('baz', 3);
+
+      expect(await p).toBe(3);
+      expect([...bus.listeners.keys()]).toEqual(['baz']);
+    });
+
+    it('rejects with the error the predicate throws', async () => {
+      let fooed = false;
+      const p = bus.waitFor(() => {
+        if(fooed) {
+          throw new Error('unexpected foo');
+        }
+        return false;
+      }, {triggers: 'foo'});
+
+      fooed = true;
+      bus.emit('foo', 'FOO!');
+
+      await expectAsync(p).toBeRejectedWithError('unexpected foo');
+      expect(bus.hasListeners).toBeFalse();
+    });
+
+    it('evaluates the predicate when any event is raised by default', async () => {
+      let raised = false;
+      const p = bus.waitFor(() => raised);
+
+      raised = true;
+      bus.emit('bar', true);
+
+      expect(await p).toBeTrue();
+    });
+
+    it('evaluates the predicate immediately unless options.eager=false', async () => {
+      await expectAsync(bus.waitFor(() => 'ready')).toBeResolvedTo('ready');
+
+      const p = bus.waitFor(() => 'ready', {eager: false, timeout: 5});
+      await expectAsync(p).toBeRejectedWithError('Timeout expired after 5 milliseconds');
+    });
+
+    it('rejects when options.timeout expires, and stops evaluating the predicate', async () => {
+      const predicate = jasmine.createSpy('predicate').and.returnValue(false);
+      const p = bus.waitFor(predicate, {triggers: 'foo', timeout: 5});
+
+      await expectAsync(p).toBeRejectedWithError('Timeout expired after 5 milliseconds');
+      predicate.calls.reset();
+      bus.emit('foo', 'FOO!');
+
+      expect(predicate).not.toHaveBeenCalled();
+      expect(bus.hasListeners).toBeFalse();
+    });
+  });
+
+  describe('.waitForAll', () => {
+    it('evaluates the predicate when any of the buses raise their triggers', async () => {
+      const other = new Strongbus.Bus<{ready: boolean}>();
+      const state = {foo: '', ready: false};
+      bus.on('foo', payload => {
+        state.foo = payload;
+      });
+      other.on('ready', ready => {
+        state.ready = ready;
+      });
+      const predicate = jasmine.createSpy('predicate').and.callFake(() => state.ready && state.foo);
+
+      const p = Strongbus.Bus.waitForAll([{bus, trigger: 'foo'}, {bus: other, trigger: ['ready']}], predicate);
+      bus.emit('bar', true);
+      bus.emit('foo', 'FOO!');
+      other.emit('ready', true);
+
+      expect(await p).toBe('FOO!');
+      expect(predicate).toHaveBeenCalledTimes(3);
+      expect(other.hasListenersFor('ready')).toBeTrue();
+      expect(other.listeners.get('ready').size).toBe(1);
+    });
+
+    it('rejects when options.timeout expires', async () => {
+      const other = new Strongbus.Bus<{ready: boolean}>();
+      const p = Strongbus.Bus.waitForAll([{bus, trigger: 'foo'}, {bus: other, trigger: 'ready'}], () => false, {timeout: 5});
+
+      await expectAsync(p).toBeRejectedWithError('Timeout expired after 5 milliseconds');
+      expect(bus.hasListeners).toBeFalse();
+      expect(other.hasListeners).toBeFalse();
+    });
+  });
 });
\ No newline at end of file
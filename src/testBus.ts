@@ -0,0 +1,50 @@
+import {Bus} from './strongbus';
+import {Emission} from './types/dispatch';
+import * as Events from './types/events';
+import {Lifecycle} from './types/lifecycle';
+import {Options} from './types/options';
+import {EventKeys} from './types/utility';
+import {matchingPatterns} from './utils/patterns';
+
+
+/**
+ * A [[Bus]] for tests, which records the events dispatched on it, including events forwarded by buses that pipe to it.
+ * Events dropped by [[Middleware]] are not recorded
+ */
+export class TestBus<TEventMap extends object = object, TResponseMap extends object = object> extends Bus<TEventMap, TResponseMap> {
+  private readonly dispatched: Emission<TEventMap>[] = [];
+
+  constructor(options?: Options<TEventMap>) {
+    super(options);
+    this.trackPending();
+    this.hook(Lifecycle.willDispatch, emission => this.dispatched.push(emission));
+  }
+
+  /**
+   * The events dispatched since the bus was created or last reset, oldest first
+   */
+  public emitted(filter: Events.Listenable<EventKeys<TEventMap>> = Events.WILDCARD): Emission<TEventMap>[] {
+    if(filter === Events.WILDCARD) {
+      return this.dispatched.slice();
+    } else if(Array.isArray(filter)) {
+      return this.dispatched.filter(emission => filter.includes(emission.event));
+    } else {
+      return this.dispatched.filter(emission => emission.event === filter || matchingPatterns(emission.event).includes(filter as string));
+    }
+  }
+
+  /**
+   * Forget the events recorded so far
+   */
+  public reset(): void {
+    this.dispatched.length = 0;
+  }
+
+  /**
+   * Resolve once all pending async handlers of the bus and its delegates have settled, e.g. to assert on errors they reported.
+   * Rejects with errors that escape the buses' error handling, e.g. those thrown by a custom [[ErrorPolicy]]
+   */
+  public flush(): Promise<void> {
+    return this.settled();
+  }
+}
@@ -0,0 +1,2 @@
+export {TestBus} from './testBus';
+export {jasmineMatchers, jestMatchers} from './matchers';
@@ -0,0 +1,163 @@
+import {sleep} from 'jaasync/lib/cancelable';
+
+import {Bus} from './strongbus';
+import {jasmineMatchers, jestMatchers, TestBus} from './testing';
+
+type TestEventMap = {
+  'user.created': string;
+  foo: string;
+  bar: number;
+};
+
+
+describe('testing', () => {
+  let bus: TestBus<TestEventMap>;
+
+  beforeEach(() => {
+    jasmine.addMatchers(jasmineMatchers);
+    bus = new TestBus<TestEventMap>({name: 'Test'});
+  });
+
+  describe('TestBus', () => {
+    it('records the events dispatched on it', () => {
+      bus.emit('foo', 'one');
+      bus.emitCancelable('bar', 2);
+      bus.emitAsync('user.created', 'alice');
+
+      expect(bus.emitted().map(({event, payload}) => ({event, payload}))).toEqual([
+        {event: 'foo', payload: 'one'},
+        {event: 'bar', payload: 2},
+        {event: 'user.created', payload: 'alice'}
+      ]);
+      expect(bus.emitted('user.*').length).toBe(1);
+      expect(bus.emitted(['foo', 'bar']).length).toBe(2);
+    });
+
+    it('records events forwarded by buses that pipe to it', () => {
+      const parent = new Bus<TestEventMap>();
+      parent.pipe(bus);
+
+      parent.emit('foo', 'one');
+      expect(bus.emitted()).toEqual([{event: 'foo', payload: 'one', forwarded: true, handled: false}]);
+    });
+
+    it('#reset forgets recorded events', () => {
+      bus.emit('foo', 'one');
+      bus.reset();
+      expect(bus.emitted()).toEqual([]);
+    });
+
+    describe('#flush', () => {
+      it('resolves once pending async handlers have settled and their errors have been handled', async () => {
+        const onError = jasmine.createSpy('onError');
+        const onSettled = jasmine.createSpy('onSettled');
+        bus.hook('error', onError);
+        bus.on('foo', async () => {
+          await sleep(10);
+          throw new Error('oops');
+        });
+        bus.on('foo', async () => {
+          await sleep(20);
+          onSettled();
+        });
+
+        bus.emit('foo', 'one');
+        await bus.flush();
+
+        expect(onError).toHaveBeenCalled();
+        expect(onSettled).toHaveBeenCalled();
+      });
+
+      it('waits for events raised by pending handlers, and for delegates\' handlers', async () => {
+        const onBar = jasmine.createSpy('onBar');
+        const delegate = bus.pipe(new Bus<TestEventMap>());
+        bus.on('foo', async () => {
+          await sleep(5);
+          bus.emit('bar', 1);
+        });
+        delegate.on('bar', async () => {
+          await sleep(5);
+          onBar();
+        });
+
+        bus.emit('foo', 'one');
+        await bus.flush();
+
+        expect(onBar).toHaveBeenCalled();
+      });
+
+      it('waits for dispatches by emitAsync', async () => {
+        const onFoo = jasmine.createSpy('onFoo');
+        bus.on('foo', async () => {
+          await sleep(5);
+          onFoo();
+        });
+
+        bus.emitAsync('foo', 'one');
+        await bus.flush();
+
+        expect(onFoo).toHaveBeenCalled();
+      });
+
+      it('rejects with errors that escape error handling', async () => {
+        bus = new TestBus<TestEventMap>({
+          errorPolicy: () => {
+            throw new Error('policy failed');
+          }
+        });
+        bus.on('foo', async () => {
+          throw new Error('oops');
+        });
+
+        bus.emit('foo', 'one');
+        await expectAsync(bus.flush()).toBeRejectedWithError('policy failed');
+      });
+
+      it('resolves immediately when nothing is pending', async () => {
+        await expectAsync(bus.flush()).toBeResolved();
+      });
+    });
+  });
+
+  describe('matchers', () => {
+    it('toHaveEmitted', () => {
+      bus.emit('foo', 'one');
+      bus.emit('bar', 2);
+
+      expect(bus).toHaveEmitted('foo');
+      expect(bus).toHaveEmitted('foo', 'one');
+      expect(bus).not.toHaveEmitted('foo', 'two');
+      expect(bus).not.toHaveEmitted('user.created');
+    });
+
+    it('toHaveListenersFor', () => {
+      const delegate = bus.pipe(new Bus<TestEventMap>());
+      delegate.on('foo', () => undefined);
+
+      expect(bus).toHaveListenersFor('foo');
+      expect(bus).not.toHaveListenersFor('bar');
+    });
+
+    it('describes failures', () => {
+      bus.emit('foo', 'one');
+      const {toHaveEmitted, toHaveListenersFor} = jasmineMatchers;
+      const util = {equals: (a: any, b: any) => a === b};
+
+      expect(toHaveEmitted(util).compare(bus, 'foo', 'two').message)
+        .toBe('Expected Test TestBus to have emitted "foo" with "two", but it emitted "one"');
+      expect(toHaveEmitted(util).compare(bus, 'foo').message).toBe('Expected Test TestBus not to have emitted "foo"');
+      expect(toHaveEmitted(util).compare(new Bus() as any, 'foo').pass).toBeFalse();
+      expect(toHaveListenersFor().compare(bus, 'foo').message).toBe('Expected Test TestBus to have listeners for "foo"');
+    });
+
+    it('are compatible with jest', () => {
+      bus.emit('foo', 'one');
+      const context = {equals: (a: any, b: any) => a === b};
+
+      const result = jestMatchers.toHaveEmitted.call(context, bus, 'foo', 'one');
+      expect(result.pass).toBeTrue();
+      expect(result.message()).toBe('Expected Test TestBus not to have emitted "foo" with "one"');
+      expect(jestMatchers.toHaveListenersFor(bus, 'foo').pass).toBeFalse();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import {Span, SpanAttributes, SpanContext, Tracer} from './types/tracing';
+import {randomId} from './utils/randomId';
+
+
+let active: SpanContext|undefined;
+
+/**
+ * The context of the span currently being executed, if any.
+ * Capture it to continue a trace after an `await` or in a callback with [[withSpanContext]]
+ */
+export function activeSpanContext(): SpanContext|undefined {
+  return active;
+}
+
+/**
+ * Invoke `fn` with `context` as the active span context, so spans opened by events it raises are children of `context`
+ */
+export function withSpanContext<T>(context: SpanContext|undefined, fn: () => T): T {
+  const previous = active;
+  active = context;
+  try {
+    return fn();
+  } finally {
+    active = previous;
+  }
+}
+
+/**
+ * A [[Span]] that records nothing, for buses that are not traced
+ * @ignore
+ */
+export const noopSpan: Span = {
+  context: {traceId: '', spanId: ''},
+  setAttribute: () => undefined,
+  addLink: () => undefined,
+  recordError: () => undefined,
+  end: () => undefined
+};
+
+/**
+ * A [[Tracer]] that records nothing. Spans share their parent's context, so traces pass through it unchanged
+ */
+export const noopTracer: Tracer = {
+  startSpan: (name, parent) => ({
+    context: parent || {traceId: '', spanId: ''},
+    setAttribute: () => undefined,
+    addLink: () => undefined,
+    recordError: () => undefined,
+    end: () => undefined
+  })
+};
+
+/**
+ * @prop parent - the context of the span's parent, `undefined` for the first span of a trace
+ * @prop startTime, endTime - milliseconds since epoch. `endTime` is `undefined` until the span has ended
+ */
+export interface RecordedSpan {
+  name: string;
+  context: SpanContext;
+  parent?: SpanContext;
+  attributes: SpanAttributes;
+  links: SpanContext[];
+  errors: any[];
+  startTime: number;
+  endTime?: number;
+}
+
+/**
+ * A [[Tracer]] that keeps the spans it opens in memory, e.g. for tests
+ */
+export class RecordingTracer implements Tracer {
+  public readonly spans: RecordedSpan[] = [];
+
+  public startSpan(name: string, parent?: SpanContext, attributes: SpanAttributes = {}): Span {
+    const recorded: RecordedSpan = {
+      name,
+      context: {traceId: parent?.traceId || randomId(), spanId: randomId()},
+      parent,
+      attributes: {...attributes},
+      links: [],
+      errors: [],
+      startTime: Date.now()
+    };
+    this.spans.push(recorded);
+    return {
+      context: recorded.context,
+      setAttribute: (key, value) => {
+        recorded.attributes[key] = value;
+      },
+      addLink: context => {
+        recorded.links.push(context);
+      },
+      recordError: error => {
+        recorded.errors.push(error);
+      },
+      end: () => {
+        recorded.endTime = recorded.endTime ?? Date.now();
+      }
+    };
+  }
+
+  /**
+   * The spans whose parent is `span`
+   */
+  public children(span: RecordedSpan): RecordedSpan[] {
+    return this.spans.filter(s => s.parent?.spanId === span.context.spanId);
+  }
+
+  public reset(): void {
+    this.spans.length = 0;
+  }
+}
@@ -0,0 +1,75 @@
+import {activeSpanContext, noopTracer, RecordingTracer, withSpanContext} from './tracing';
+
+
+describe('tracing', () => {
+  describe('withSpanContext', () => {
+    it('sets the active span context while the function runs', () => {
+      const context = {traceId: 'trace', spanId: 'span'};
+      const active = withSpanContext(context, () => activeSpanContext());
+
+      expect(active).toBe(context);
+      expect(activeSpanContext()).toBeUndefined();
+    });
+
+    it('restores the previous context when the function throws', () => {
+      const outer = {traceId: 'trace', spanId: 'outer'};
+      withSpanContext(outer, () => {
+        expect(() => withSpanContext({traceId: 'trace', spanId: 'inner'}, () => {
+          throw new Error('oops');
+        })).toThrowError('oops');
+        expect(activeSpanContext()).toBe(outer);
+      });
+    });
+  });
+
+  describe('noopTracer', () => {
+    it('passes the parent context through', () => {
+      const parent = {traceId: 'trace', spanId: 'span'};
+      expect(noopTracer.startSpan('emit foo', parent).context).toBe(parent);
+    });
+  });
+
+  describe('RecordingTracer', () => {
+    let tracer: RecordingTracer;
+
+    beforeEach(() => {
+      tracer = new RecordingTracer();
+    });
+
+    it('records spans, their attributes, links, errors and timing', () => {
+      const root = tracer.startSpan('root', undefined, {a: 1});
+      const child = tracer.startSpan('child', root.context);
+      const error = new Error('oops');
+      child.setAttribute('b', 2);
+      child.addLink({traceId: 'other', spanId: 'span'});
+      child.recordError(error);
+      child.end();
+
+      const [recordedRoot, recordedChild] = tracer.spans;
+      expect(recordedRoot.attributes).toEqual({a: 1});
+      expect(recordedRoot.endTime).toBeUndefined();
+      expect(recordedChild).toEqual(jasmine.objectContaining({
+        name: 'child',
+        parent: root.context,
+        attributes: {b: 2},
+        links: [{traceId: 'other', spanId: 'span'}],
+        errors: [error]
+      }));
+      expect(recordedChild.context.traceId).toBe(root.context.traceId);
+      expect(recordedChild.endTime).toBeGreaterThanOrEqual(recordedChild.startTime);
+      expect(tracer.children(recordedRoot)).toEqual([recordedChild]);
+    });
+
+    it('starts a new trace for spans without a parent', () => {
+      const a = tracer.startSpan('a');
+      const b = tracer.startSpan('b');
+      expect(a.context.traceId).not.toBe(b.context.traceId);
+    });
+
+    it('#reset forgets recorded spans', () => {
+      tracer.startSpan('a');
+      tracer.reset();
+      expect(tracer.spans).toEqual([]);
+    });
+  });
+});
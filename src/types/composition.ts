@@ -0,0 +1,32 @@
+import {Bus} from '../strongbus';
+import * as Events from './events';
+import {EventKeys, UnionToIntersection} from './utility';
+
+/**
+ * The event map of a [[Bus]]
+ */
+export type EventMapOf<TBus> = TBus extends Bus<infer TEventMap, any> ? TEventMap : never;
+
+/**
+ * The event map of a bus created by [[Bus.compose]], which has the events of each of the composed buses
+ */
+export type ComposedEventMap<TBuses extends unknown[]> = UnionToIntersection<EventMapOf<TBuses[number]>> & object;
+
+/**
+ * Buses that may be composed with [[Bus.compose]], each with its own event map
+ */
+export type Composable<TBuses extends unknown[]> = {[K in keyof TBuses]: Bus<EventMapOf<TBuses[K]>, any>};
+
+/**
+ * A [[Bus]] if a bus with `TEventMap` can pipe to `TDelegate`, otherwise `never`.
+ * Every event of the delegate must be an event of the bus, with the same payload
+ */
+export type Pipeable<TEventMap extends object, TDelegate> = [TEventMap] extends [EventMapOf<TDelegate>] ? Bus<EventMapOf<TDelegate>, any> : never;
+
+/**
+ * A bus and the events that trigger evaluation of a [[Bus.waitForAll]] predicate
+ */
+export interface WaitForTarget<TBus> {
+  bus: TBus;
+  trigger: Events.Listenable<EventKeys<EventMapOf<TBus>>>;
+}
@@ -0,0 +1,86 @@
+import * as Events from './events';
+import * as EventHandlers from './eventHandlers';
+import {EventKeys} from './utility';
+
+/**
+ * @description how handlers are invoked when an event is raised
+ * - `async` handlers are wrapped in async functions. [[Bus.emitAsync]] awaits handlers in parallel
+ * - `sync` handlers are invoked directly, with errors reported as soon as they are thrown.
+ * [[Bus.emitAsync]] awaits each handler before invoking the next, so side-effects happen in subscription order
+ */
+export type DispatchMode = 'sync'|'async';
+
+/**
+ * @prop event - the event the failing handler was subscribed to
+ * @prop handler - the handler that threw or rejected, as it was given to the bus
+ * @prop error - what the handler threw or rejected with
+ */
+export interface HandlerError<TEventMap extends object = object> {
+  event: Events.ListenerKey<EventKeys<TEventMap>>;
+  handler: EventHandlers.GenericHandler;
+  error: Error;
+}
+
+/**
+ * A handler that failed, after any retries
+ * @prop event - the event that was raised
+ * @prop payload - the payload the handler was invoked with
+ * @prop handler - the handler that threw or rejected, as it was given to the bus
+ * @prop error - what the handler threw or rejected with
+ */
+export interface DeadLetter<TEventMap extends object = object, T extends EventKeys<TEventMap> = EventKeys<TEventMap>> {
+  event: T;
+  payload: TEventMap[T];
+  handler: EventHandlers.GenericHandler;
+  error: any;
+}
+
+/**
+ * @description what a [[Bus]] does when a handler throws or rejects, after raising [[Lifecycle.error]] and [[Lifecycle.deadLetter]]
+ * - `swallow` nothing further
+ * - `log` the error is logged with `options.logger.error`
+ * - `throw` the error is rethrown by the method that raised the event, once the bus's own handlers have been invoked.
+ * Errors from handlers that have not settled by then, e.g. async handlers that reject, are rethrown asynchronously as with `rethrowAsync`,
+ * surfacing as uncaught exceptions that terminate a Node process without an `uncaughtException` listener.
+ * [[Bus.emitAsync]] instead rejects with the error once all handlers have settled
+ * - `rethrowAsync` the error is rethrown asynchronously, surfacing as an uncaught exception
+ * - a function is invoked with the [[DeadLetter]]
+ */
+export type ErrorPolicy<TEventMap extends object = object> = 'swallow'|'log'|'throw'|'rethrowAsync'|((deadLetter: DeadLetter<TEventMap>) => void);
+
+/**
+ * An event being dispatched by a [[Bus]] to its handlers and delegates, after it has passed through any [[Middleware]]
+ * @prop forwarded - was the event forwarded by a bus that pipes to this bus, rather than raised on it
+ * @prop handled - whether the event was handled, set once it has been dispatched.
+ * `undefined` while [[Bus.emitAsync]] handlers are pending, or if dispatch was interrupted by an error
+ */
+export interface Emission<TEventMap extends object = object, T extends EventKeys<TEventMap> = EventKeys<TEventMap>> {
+  event: T;
+  payload: TEventMap[T];
+  forwarded: boolean;
+  handled?: boolean;
+}
+
+/**
+ * @prop handled - were there any handlers (including delegates' handlers) for the event
+ * @prop errors - a [[HandlerError]] for each handler that threw or rejected
+ * @prop intercepted - was the event not dispatched when it was raised, because [[Middleware]] dropped or deferred it,
+ * or its payload was invalid. An intercepted event is not handled, even if it has handlers
+ */
+export interface EmitResult<TEventMap extends object = object> {
+  handled: boolean;
+  errors: HandlerError<TEventMap>[];
+  intercepted: boolean;
+}
+
+
+/**
+ * @prop handled - were there any handlers (including delegates' handlers) for the event
+ * @prop defaultPrevented - did a handler cancel the event with [[EventContext.preventDefault]]
+ * @prop propagationStopped - did a handler stop the event from reaching further handlers with [[EventContext.stopPropagation]]
+ */
+export interface CancelableEmitResult {
+  handled: boolean;
+  defaultPrevented: boolean;
+  propagationStopped: boolean;
+}
\ No newline at end of file
@@ -1,15 +1,21 @@
 import {EventKeys, ElementType} from './utility';
-import {WILDCARD} from './events';
+import {EventContext, Pattern, PatternEvents, WILDCARD} from './events';
 
-export type SingleEventHandler<TEventMap extends object, T extends EventKeys<TEventMap>> = (payload: TEventMap[T]) => void;
+export type SingleEventHandler<TEventMap extends object, T extends EventKeys<TEventMap>> = (payload: TEventMap[T], context?: EventContext) => void;
 
 export type MultiEventHandler<
   TEventMap extends object,
   TEventSubset extends EventKeys<TEventMap>[] = EventKeys<TEventMap>[]
-> = <TEvent extends ElementType<TEventSubset>>(event: TEvent, payload: TEventMap[TEvent]) => void;
+> = <TEvent extends ElementType<TEventSubset>>(event: TEvent, payload: TEventMap[TEvent], context?: EventContext) => void;
 
 export type WildcardEventHandler<TEventMap extends object> =
-  <T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T]) => void;
+  <T extends EventKeys<TEventMap>>(event: T, payload: TEventMap[T], context?: EventContext) => void;
+
+/**
+ * Like [[MultiEventHandler]], receives the raised event as first argument, narrowed to the events matching the pattern
+ */
+export type PatternEventHandler<TEventMap extends object, TPattern extends Pattern<EventKeys<TEventMap>>> =
+  MultiEventHandler<TEventMap, PatternEvents<EventKeys<TEventMap>, TPattern>[]>;
 
 export type EventHandler<TEventMap extends object, TEvent> =
   TEvent extends EventKeys<TEventMap>[]
@@ -18,9 +24,14 @@ export type EventHandler<TEventMap extends object, TEvent> =
       ? SingleEventHandler<TEventMap, TEvent>
       : TEvent extends WILDCARD
         ? WildcardEventHandler<TEventMap>
-        : never;
+        : TEvent extends Pattern<EventKeys<TEventMap>>
+          ? PatternEventHandler<TEventMap, TEvent>
+          : never;
 
 export type GenericHandler = (...args: any) => void|Promise<void>;
 
-
-
+export type Responder<
+  TEventMap extends object,
+  TResponseMap extends object,
+  T extends EventKeys<TEventMap> & EventKeys<TResponseMap>
+> = (payload: TEventMap[T]) => TResponseMap[T]|Promise<TResponseMap[T]>;
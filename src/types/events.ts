@@ -12,4 +12,39 @@ export interface Subscription {
 
 export type WILDCARD = '*';
 export const WILDCARD: WILDCARD = '*';
-export type Listenable<E extends Event> = E|E[]|WILDCARD;
\ No newline at end of file
+
+/**
+ * Subscribes to every event in a namespace, at any depth.
+ * e.g. `"user.*"` matches `"user.created"` and `"user.address.changed"`; `"user.address.*"` matches only the latter
+ */
+export type Pattern<E extends Event> = `${Namespaces<Extract<E, string>>}.*`;
+
+/**
+ * The events matched by a [[Pattern]]
+ */
+export type PatternEvents<E extends Event, P> = P extends `${infer Namespace}.*` ? Extract<E, `${Namespace}.${string}`> : never;
+
+/**
+ * @ignore
+ * `"a.b.c"` has the namespaces `"a"` and `"a.b"`
+ */
+type Namespaces<E extends string> = E extends `${infer Head}.${infer Tail}` ? Head|`${Head}.${Namespaces<Tail>}` : never;
+
+export type Listenable<E extends Event> = E|E[]|WILDCARD|Pattern<E>;
+
+/**
+ * What listeners are registered for: a single event, [[WILDCARD]], or a [[Pattern]]
+ */
+export type ListenerKey<E extends Event> = E|WILDCARD|Pattern<E>;
+
+/**
+ * Passed to handlers as the last argument when an event is raised with [[Bus.emitCancelable]]
+ * @prop stopPropagation - prevent the event from reaching lower priority handlers, [[WILDCARD]] handlers and delegates
+ * @prop preventDefault - mark the event as canceled, i.e. vetoed. Does not stop propagation
+ */
+export interface EventContext {
+  readonly propagationStopped: boolean;
+  readonly defaultPrevented: boolean;
+  stopPropagation(): void;
+  preventDefault(): void;
+}
\ No newline at end of file
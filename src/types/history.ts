@@ -0,0 +1,11 @@
+import {EventKeys} from './utility';
+
+/**
+ * An event raised on a [[Bus]], recorded when `options.history` is greater than `0`
+ * @prop timestamp - milliseconds since epoch when the event was raised
+ */
+export interface HistoryEntry<TEventMap extends object, T extends EventKeys<TEventMap> = EventKeys<TEventMap>> {
+  event: T;
+  payload: TEventMap[T];
+  timestamp: number;
+}
@@ -1,5 +1,7 @@
 import {strEnum} from '../utils/strEnum';
+import {DeadLetter, Emission} from './dispatch';
 import * as Events from './events';
+import * as EventHandlers from './eventHandlers';
 import {EventKeys} from './utility';
 
 export const Lifecycle = strEnum([
@@ -12,7 +14,11 @@ export const Lifecycle = strEnum([
   'willRemoveListener',
   'didRemoveListener',
   'willDestroy',
-  'error'
+  'error',
+  'deadLetter',
+  'handlerTimeout',
+  'invalidPayload',
+  'willDispatch'
 ]);
 export type Lifecycle = keyof typeof Lifecycle;
 
@@ -22,11 +28,16 @@ export namespace Lifecycle {
     [Lifecycle.active]: void;
     [Lifecycle.willIdle]: void;
     [Lifecycle.idle]: void;
-    [Lifecycle.willAddListener]: EventKeys<TEventMap>|Events.WILDCARD;
-    [Lifecycle.didAddListener]: EventKeys<TEventMap>|Events.WILDCARD;
-    [Lifecycle.willRemoveListener]: EventKeys<TEventMap>|Events.WILDCARD;
-    [Lifecycle.didRemoveListener]: EventKeys<TEventMap>|Events.WILDCARD;
+    [Lifecycle.willAddListener]: Events.ListenerKey<EventKeys<TEventMap>>;
+    [Lifecycle.didAddListener]: Events.ListenerKey<EventKeys<TEventMap>>;
+    [Lifecycle.willRemoveListener]: Events.ListenerKey<EventKeys<TEventMap>>;
+    [Lifecycle.didRemoveListener]: Events.ListenerKey<EventKeys<TEventMap>>;
     [Lifecycle.willDestroy]: void;
-    [Lifecycle.error]: {error: Error, event: EventKeys<TEventMap>|Events.WILDCARD|Lifecycle};
+    // `event` is undefined for errors that are not raised by a handler, e.g. a malformed frame received by a RemoteBus
+    [Lifecycle.error]: {error: Error, event: Events.ListenerKey<EventKeys<TEventMap>>|Lifecycle|undefined};
+    [Lifecycle.deadLetter]: DeadLetter<TEventMap>;
+    [Lifecycle.handlerTimeout]: {event: EventKeys<TEventMap>, handler: EventHandlers.GenericHandler, timeout: number};
+    [Lifecycle.invalidPayload]: {event: EventKeys<TEventMap>, payload: unknown};
+    [Lifecycle.willDispatch]: Emission<TEventMap>;
   }
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Receives measurements from a [[Bus]] configured with `options.metrics`.
+ * Every [[Bus]] also keeps its own measurements, see [[Bus.metrics]]
+ */
+export interface MetricsSink {
+  /**
+   * An event was raised on a bus
+   * @param handled - did the bus or its delegates have handlers for the event
+   */
+  recordEmit(bus: string, event: string, handled: boolean): void;
+  /**
+   * A handler settled
+   * @param duration - milliseconds from invocation until the handler returned or its promise settled
+   * @param failed - did the handler throw or reject
+   */
+  recordHandler(bus: string, event: string, duration: number, failed: boolean): void;
+  /**
+   * The number of a bus's own listeners for an event, [[Pattern]] or [[WILDCARD]] changed
+   */
+  recordListeners(bus: string, event: string, count: number): void;
+  /**
+   * An event was forwarded to a bus's delegates
+   * @param delegates - how many delegates received the event
+   */
+  recordFanOut(bus: string, event: string, delegates: number): void;
+}
+
+/**
+ * Measurements of a single event on a [[Bus]]
+ * @prop emits - how many times the event was raised
+ * @prop handled - how many times the event was raised with handlers
+ * @prop unhandled - how many times the event was raised without handlers
+ * @prop handlerCalls - how many handler invocations settled
+ * @prop handlerErrors - how many handler invocations threw or rejected
+ * @prop handlerDuration - total and maximum milliseconds handlers took to settle
+ * @prop listeners - the bus's current listeners for the event, [[Pattern]] or [[WILDCARD]]
+ * @prop fanOut - how many deliveries of the event were made to delegates
+ */
+export interface EventMetrics {
+  emits: number;
+  handled: number;
+  unhandled: number;
+  handlerCalls: number;
+  handlerErrors: number;
+  handlerDuration: {total: number, max: number};
+  listeners: number;
+  fanOut: number;
+}
+
+/**
+ * `{[Event]: EventMetrics}`
+ */
+export interface BusMetrics {
+  [event: string]: EventMetrics;
+}
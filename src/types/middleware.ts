@@ -0,0 +1,12 @@
+import {EventKeys} from './utility';
+
+/**
+ * Intercepts events raised on a [[Bus]] before they reach its handlers and delegates.
+ * Invoke `next` to continue, optionally with a replacement payload.
+ * The event is dropped if `next` is never invoked, and deferred if `next` is invoked asynchronously
+ */
+export type Middleware<TEventMap extends object> = <T extends EventKeys<TEventMap>>(
+  event: T,
+  payload: TEventMap[T],
+  next: (payload?: TEventMap[T]) => void
+) => void;
@@ -1,5 +1,12 @@
 
+import {retry} from 'jaasync/lib/cancelable';
+
+import {DispatchMode, ErrorPolicy} from './dispatch';
 import {Logger} from './logger';
+import {MetricsSink} from './metrics';
+import {Tracer} from './tracing';
+import {EventKeys} from './utility';
+import {Validators} from './validation';
 
 /**
  * @description notify of possible memory leaks
@@ -18,10 +25,74 @@ export interface ListenerThresholds {
  * @prop name `"Anonymous"` - A name for the bus. Included in warn/info/error potential memory leak messages and unhandled event errors thrown
  * @prop thresholds [[ListenerThresholds]]
  * @prop logger [[Logger]] [`console`] - How to log potential memory leaks, if thresholds are < Infinity
+ * @prop dispatch [[DispatchMode]] [`"async"`] - How handlers are invoked when an event is raised
+ * @prop sticky [default=`[]`] - Events whose most recent payload is cached and delivered to new subscribers as soon as they subscribe
+ * @prop history [default=`0`] - How many of the most recently raised events to record for [[Bus.history]] and replay
+ * @prop validators [default=`{}`] - [[Validators]] checking payloads at runtime when events are raised. Events with invalid payloads are dropped
+ * @prop rejectInvalidPayloads [default=`false`] - Should the Bus throw an error when an event is raised with an invalid payload,
+ * rather than raising [[Lifecycle.invalidPayload]]
+ * @prop errorPolicy [[ErrorPolicy]] [`"swallow"`] - What to do when a handler throws or rejects
+ * @prop handlerTimeout [default=`Infinity`] - Milliseconds a handler's promise may remain pending before the handler fails
+ * with a `TimeoutExpiredError` and [[Lifecycle.handlerTimeout]] is raised
+ * @prop slowHandlerThreshold [default=`Infinity`] - log warn when a handler takes longer than this many milliseconds to settle
+ * @prop metrics [[MetricsSink]] - Where to report measurements of the bus, in addition to [[Bus.metrics]]
+ * @prop tracer [[Tracer]] [`noopTracer`] - Opens spans for events, handlers, [[Bus.next]] and [[Scanner]] evaluations.
+ * Events and handlers are only traced when it is set
+ * @prop events - The events of the bus's event map. A bus created by [[Bus.compose]] forwards only these events to the bus.
+ * When not given, it forwards the events the bus is listening for
  */
-export interface Options {
+export interface Options<TEventMap extends object = object> {
   allowUnhandledEvents?: boolean;
   name?: string;
   thresholds?: Partial<ListenerThresholds>;
   logger?: Logger;
+  dispatch?: DispatchMode;
+  sticky?: EventKeys<TEventMap>[];
+  history?: number;
+  validators?: Validators<TEventMap>;
+  rejectInvalidPayloads?: boolean;
+  errorPolicy?: ErrorPolicy<any>;
+  handlerTimeout?: number;
+  slowHandlerThreshold?: number;
+  metrics?: MetricsSink;
+  tracer?: Tracer;
+  events?: EventKeys<TEventMap>[];
+}
+
+/**
+ * @prop priority [default=`0`] - Handlers with higher priority are invoked first. Handlers of equal priority are invoked
+ * in the order they subscribed. [[WILDCARD]] handlers are ordered alongside event handlers by priority, following event handlers of
+ * equal priority. Priorities apply within a single [[Bus]]; delegates receive events after all of the piping bus's handlers
+ * @prop replay [default=`0`] - Immediately deliver up to this many of the most recently raised matching events recorded in the bus's history.
+ * Takes precedence over sticky events when the bus records history: the handler receives a sticky payload only if it is among the replayed events
+ * @prop errorPolicy [[ErrorPolicy]] - What to do when the handler throws or rejects. Defaults to the bus's `options.errorPolicy`
+ * @prop retry - Retry the handler with exponential backoff when it throws or rejects, before it is considered failed.
+ * Accepts the options of jaasync's `retry`, with `maxRetryAttempts` defaulting to `3`.
+ * Synchronous handlers are retried too, so their errors are reported asynchronously once retries are exhausted,
+ * and are not rethrown by the method that raised the event under the `"throw"` [[ErrorPolicy]]
+ * @prop timeout - Milliseconds the handler's promise may remain pending before it times out. Defaults to the bus's `options.handlerTimeout`.
+ * Applies to each retry attempt
+ */
+export interface SubscriptionOptions {
+  priority?: number;
+  replay?: number;
+  errorPolicy?: ErrorPolicy<any>;
+  retry?: Partial<retry.Options>;
+  timeout?: number;
+}
+
+/**
+ * @prop timeout [default=`Infinity`] - reject the request if no response is received within this many milliseconds
+ */
+export interface RequestOptions {
+  timeout?: number;
+}
+
+/**
+ * @prop timeout - reject with a `TimeoutExpiredError` if the predicate is not satisfied within this many milliseconds
+ * @prop eager [default=`true`] - evaluate the predicate immediately, as well as each time it is triggered
+ */
+export interface WaitForOptions {
+  timeout?: number;
+  eager?: boolean;
 }
\ No newline at end of file
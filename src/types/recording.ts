@@ -0,0 +1,35 @@
+/**
+ * An event captured by a [[Recorder]]
+ * @prop bus - the name of the bus the event was dispatched on
+ * @prop timestamp - milliseconds since epoch when the event was dispatched
+ * @prop handled - did the bus or its delegates have handlers for the event.
+ * `false` if [[Bus.emitAsync]] handlers were still pending when the recording was exported
+ * @prop forwarded - was the event forwarded by a bus that pipes to this bus, rather than raised on it
+ */
+export interface RecordedEvent {
+  bus: string;
+  event: string;
+  payload: any;
+  timestamp: number;
+  handled: boolean;
+  forwarded: boolean;
+}
+
+/**
+ * A bus attached to a [[Recorder]]
+ * @prop delegates - the names of the recorded buses it pipes to
+ */
+export interface RecordedBus {
+  name: string;
+  delegates: string[];
+}
+
+/**
+ * The JSON export of a [[Recorder]], which a [[Replayer]] re-emits
+ * @prop events - oldest first
+ */
+export interface Recording {
+  version: 1;
+  buses: RecordedBus[];
+  events: RecordedEvent[];
+}
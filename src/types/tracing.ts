@@ -0,0 +1,32 @@
+/**
+ * Identifies a span and the trace it belongs to
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export type SpanAttributes = {[key: string]: unknown};
+
+/**
+ * A timed operation, such as raising an event or invoking a handler
+ */
+export interface Span {
+  readonly context: SpanContext;
+  setAttribute(key: string, value: unknown): void;
+  /**
+   * Relate the span to another span that caused it but is not its parent
+   */
+  addLink(context: SpanContext): void;
+  recordError(error: any): void;
+  end(): void;
+}
+
+/**
+ * Opens [[Span]]s for a [[Bus]] configured with `options.tracer`, e.g. an adapter for an OpenTelemetry tracer.
+ * Spans are opened for each event raised, each handler invocation, each [[Bus.next]], and each [[Scanner]] evaluation
+ * @param parent - the span the new span is a child of. A new trace is started without a parent
+ */
+export interface Tracer {
+  startSpan(name: string, parent?: SpanContext, attributes?: SpanAttributes): Span;
+}
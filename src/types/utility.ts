@@ -1,3 +1,10 @@
 export type EventKeys<T extends object> = Exclude<keyof T, symbol>;
 
-export type ElementType<ArrayType> = ArrayType extends (infer E)[] ? E : never;
\ No newline at end of file
+export type ElementType<ArrayType> = ArrayType extends (infer E)[] ? E : never;
+
+export type UnionToIntersection<U> = (U extends any ? (u: U) => void : never) extends (i: infer I) => void ? I : never;
+
+export type Truthy<T> = Exclude<T, false|0|''|null|undefined|void>;
+
+// blocks inference of a type parameter from the position it is used in
+export type NoInfer<T> = [T][T extends any ? 0 : never];
@@ -0,0 +1,21 @@
+import {EventKeys} from './utility';
+
+/**
+ * Checks at runtime that a payload matches its event's type
+ */
+export type Validator<T> = (payload: unknown) => payload is T;
+
+/**
+ * `{[Event]: Validator}` for events whose payloads are validated when raised
+ */
+export type Validators<TEventMap extends object> = {
+  [T in EventKeys<TEventMap>]?: Validator<TEventMap[T]>;
+};
+
+/**
+ * Adapts a schema library to [[Validator]]s for use with [[createValidators]]
+ * @typeParam TSchema - the library's schema type
+ */
+export interface SchemaAdapter<TSchema> {
+  isValid(schema: TSchema, payload: unknown): boolean;
+}
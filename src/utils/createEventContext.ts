@@ -0,0 +1,20 @@
+import * as Events from '../types/events';
+
+export function createEventContext(): Events.EventContext {
+  let propagationStopped = false;
+  let defaultPrevented = false;
+  return {
+    get propagationStopped() {
+      return propagationStopped;
+    },
+    get defaultPrevented() {
+      return defaultPrevented;
+    },
+    stopPropagation: () => {
+      propagationStopped = true;
+    },
+    preventDefault: () => {
+      defaultPrevented = true;
+    }
+  };
+}
@@ -0,0 +1,17 @@
+import {EventKeys} from '../types/utility';
+import {SchemaAdapter, Validator, Validators} from '../types/validation';
+
+/**
+ * Create [[Validators]] for `options.validators` from a schema per event
+ */
+export function createValidators<TEventMap extends object, TSchema = any>(
+  adapter: SchemaAdapter<TSchema>,
+  schemas: {[T in EventKeys<TEventMap>]?: TSchema}
+): Validators<TEventMap> {
+  const validators: Validators<TEventMap> = {};
+  for(const event of Object.keys(schemas) as EventKeys<TEventMap>[]) {
+    const schema: TSchema = schemas[event];
+    validators[event] = ((payload: unknown) => adapter.isValid(schema, payload)) as Validator<any>;
+  }
+  return validators;
+}
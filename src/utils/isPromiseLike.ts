@@ -0,0 +1,3 @@
+export function isPromiseLike<T = any>(value: any): value is PromiseLike<T> {
+  return Boolean(value) && typeof value.then === 'function';
+}
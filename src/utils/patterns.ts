@@ -0,0 +1,32 @@
+import * as Events from '../types/events';
+
+export function isPattern(event: any): boolean {
+  return typeof event === 'string' && event.length > 2 && event.endsWith('.*');
+}
+
+/**
+ * The patterns matching an event, most specific first. `"a.b.c"` is matched by `"a.b.*"` and `"a.*"`.
+ * Looking up each of an event's namespaces walks the same path as a trie of patterns, without scanning every pattern
+ */
+export function matchingPatterns(event: string|number): string[] {
+  if(typeof event !== 'string') {
+    return [];
+  }
+  const patterns: string[] = [];
+  for(let i = event.lastIndexOf('.'); i > 0; i = event.lastIndexOf('.', i - 1)) {
+    patterns.push(`${event.substring(0, i)}.*`);
+  }
+  return patterns;
+}
+
+/**
+ * Whether a handler subscribed to `listenable` receives an event
+ */
+export function isListening(listenable: Events.Listenable<Events.Event>, event: Events.Event): boolean {
+  if(listenable === Events.WILDCARD) {
+    return true;
+  } else if(Array.isArray(listenable)) {
+    return listenable.includes(event);
+  }
+  return listenable === event || (typeof listenable === 'string' && matchingPatterns(event).includes(listenable));
+}
@@ -0,0 +1,2 @@
+/** `Symbol.observable` where a polyfill (e.g. RxJS's) has defined it, otherwise the `"@@observable"` convention */
+export const symbolObservable: symbol|string = (typeof Symbol === 'function' && (Symbol as any).observable) || '@@observable';